@@ -14,9 +14,43 @@ import type {
   FunctionReference,
 } from "convex/server";
 import type * as auth from "../auth.js";
+import type * as dialogue from "../dialogue.js";
+import type * as entityExtractor from "../entityExtractor.js";
+import type * as env from "../env.js";
+import type * as feedback from "../feedback.js";
 import type * as http from "../http.js";
+import type * as intentClassifier from "../intentClassifier.js";
+import type * as intents from "../intents.js";
+import type * as llm from "../llm.js";
+import type * as memories from "../memories.js";
+import type * as messages from "../messages.js";
+import type * as metrics from "../metrics.js";
+import type * as migrations from "../migrations.js";
+import type * as moderation from "../moderation.js";
+import type * as mood from "../mood.js";
+import type * as nlu from "../nlu.js";
+import type * as nluDefaults from "../nluDefaults.js";
+import type * as nluEvaluation from "../nluEvaluation.js";
+import type * as preferences from "../preferences.js";
+import type * as reminders from "../reminders.js";
+import type * as responseRouter from "../responseRouter.js";
 import type * as router from "../router.js";
+import type * as safety from "../safety.js";
+import type * as sentimentAnalyzer from "../sentimentAnalyzer.js";
+import type * as sentimentModels from "../sentimentModels.js";
+import type * as sessions from "../sessions.js";
+import type * as skills_index from "../skills/index.js";
+import type * as skills_memory from "../skills/memory.js";
+import type * as skills_mood from "../skills/mood.js";
+import type * as skills_music from "../skills/music.js";
+import type * as skills_preferences from "../skills/preferences.js";
+import type * as skills_reminders from "../skills/reminders.js";
+import type * as skills_weather from "../skills/weather.js";
+import type * as summaries from "../summaries.js";
+import type * as validators from "../validators.js";
 import type * as voiceAssistant from "../voiceAssistant.js";
+import type * as voiceSettings from "../voiceSettings.js";
+import type * as weather from "../weather.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -28,9 +62,43 @@ import type * as voiceAssistant from "../voiceAssistant.js";
  */
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
+  dialogue: typeof dialogue;
+  entityExtractor: typeof entityExtractor;
+  env: typeof env;
+  feedback: typeof feedback;
   http: typeof http;
+  intentClassifier: typeof intentClassifier;
+  intents: typeof intents;
+  llm: typeof llm;
+  memories: typeof memories;
+  messages: typeof messages;
+  metrics: typeof metrics;
+  migrations: typeof migrations;
+  moderation: typeof moderation;
+  mood: typeof mood;
+  nlu: typeof nlu;
+  nluDefaults: typeof nluDefaults;
+  nluEvaluation: typeof nluEvaluation;
+  preferences: typeof preferences;
+  reminders: typeof reminders;
+  responseRouter: typeof responseRouter;
   router: typeof router;
+  safety: typeof safety;
+  sentimentAnalyzer: typeof sentimentAnalyzer;
+  sentimentModels: typeof sentimentModels;
+  sessions: typeof sessions;
+  "skills/index": typeof skills_index;
+  "skills/memory": typeof skills_memory;
+  "skills/mood": typeof skills_mood;
+  "skills/music": typeof skills_music;
+  "skills/preferences": typeof skills_preferences;
+  "skills/reminders": typeof skills_reminders;
+  "skills/weather": typeof skills_weather;
+  summaries: typeof summaries;
+  validators: typeof validators;
   voiceAssistant: typeof voiceAssistant;
+  voiceSettings: typeof voiceSettings;
+  weather: typeof weather;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
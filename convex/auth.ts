@@ -1,7 +1,8 @@
 import { convexAuth, getAuthUserId } from "@convex-dev/auth/server";
 import { Password } from "@convex-dev/auth/providers/Password";
 import { Anonymous } from "@convex-dev/auth/providers/Anonymous";
-import { query } from "./_generated/server";
+import { internalMutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
 
 export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
   providers: [Password, Anonymous],
@@ -20,3 +21,35 @@ export const loggedInUser = query({
     return user;
   },
 });
+
+// Returns the signed-in user's id, or throws unless they have the admin role.
+export async function requireAdmin(ctx: QueryCtx) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+  const user = await ctx.db.get(userId);
+  if (user?.role !== "admin") {
+    throw new Error("Admin access required");
+  }
+  return userId;
+}
+
+// Grants or revokes the admin role. Run from the dashboard or with
+// `npx convex run auth:setUserRole '{"email": "...", "role": "admin"}'`.
+export const setUserRole = internalMutation({
+  args: {
+    email: v.string(),
+    role: v.union(v.literal("admin"), v.literal("user")),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", q => q.eq("email", args.email))
+      .first();
+    if (!user) {
+      throw new Error(`No user with email ${args.email}`);
+    }
+    await ctx.db.patch(user._id, { role: args.role });
+  },
+});
@@ -0,0 +1,151 @@
+// Dialogue manager.
+//
+// Decides which skill handles a turn and keeps multi-turn exchanges together.
+// When a skill is missing a required slot the manager asks for it and stores
+// an active frame on the conversation context; the next utterance is then
+// read as the answer (filling the slot) rather than classified from scratch,
+// unless it is clearly a new request. "Cancel" or "never mind" drops the
+// frame, and frames expire after a few minutes of silence.
+
+import { internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import { extractAnswer, extractEntities } from "./entityExtractor";
+import { findSkill, getSkill, Skill, SkillInput, SkillResult } from "./skills";
+import { DialogueFrame, Entity, dialogueFrameValidator } from "./validators";
+
+const FRAME_TTL_MS = 5 * 60 * 1000;
+// Give up on a slot after asking for it this many times.
+const MAX_SLOT_ATTEMPTS = 2;
+
+const CANCEL_FRAME = /^\s*(?:oh\s+)?(?:never\s?mind|forget (?:it|that|about it)|cancel(?: that| it)?|stop|nothing|no thanks?)\b[\s.!,]*$/i;
+
+export type DialogueTurn = Omit<SkillInput, "frame">;
+
+export type DialogueResult = SkillResult & {
+  skill: string;
+};
+
+// Keeps the first entity of each type, so slots filled on earlier turns win
+// over later guesses.
+function mergeSlots(...groups: Entity[][]): Entity[] {
+  const merged: Entity[] = [];
+  for (const entity of groups.flat()) {
+    if (!merged.some(existing => existing.type === entity.type)) merged.push(entity);
+  }
+  return merged;
+}
+
+function missingSlots(skill: Skill, slots: Entity[]) {
+  return skill.requiredSlots.filter(slot => !slots.some(entity => entity.type === slot.type));
+}
+
+// Reads a follow-up utterance as the answer to the frame's question.
+async function fillFromAnswer(turn: DialogueTurn, frame: DialogueFrame, skill: Skill): Promise<Entity[]> {
+  const intents = await turn.ctx.runQuery(api.voiceAssistant.getAllIntents);
+  const definitions = intents.find(intent => intent.category === frame.intent)?.entities ?? [];
+  const extracted = extractEntities(turn.text, definitions, {
+    now: Date.now(),
+    timezoneOffsetMinutes: turn.timezoneOffset,
+  });
+  const derived = skill.extractSlots?.({ ...turn, frame, intent: { ...turn.intent, entities: extracted } }) ?? [];
+
+  return mergeSlots(extracted, derived).filter(entity => frame.missing.includes(entity.type));
+}
+
+async function saveFrame(turn: DialogueTurn, frame: DialogueFrame | null) {
+  if (!frame && !turn.context?.activeFrame) return;
+  await turn.ctx.runMutation(internal.dialogue.setActiveFrame, {
+    conversationId: turn.conversationId,
+    frame: frame ?? undefined,
+  });
+}
+
+// Asks for the first missing slot, or runs the skill once all are filled.
+async function advance(skill: Skill, input: SkillInput): Promise<DialogueResult | null> {
+  const slots = mergeSlots(input.frame?.slots ?? [], input.intent.entities, skill.extractSlots?.(input) ?? []);
+  const ready: SkillInput = { ...input, intent: { ...input.intent, entities: slots } };
+
+  if (skill.needsSlots?.(ready) ?? true) {
+    const missing = missingSlots(skill, slots);
+    if (missing.length > 0) {
+      const next = missing[0];
+      const attempts = input.frame?.missing[0] === next.type ? input.frame.attempts + 1 : 1;
+      if (attempts > MAX_SLOT_ATTEMPTS) {
+        await saveFrame(input, null);
+        return { speech: "Sorry, I still didn't catch that. Let's start over whenever you're ready.", skill: skill.name };
+      }
+
+      await saveFrame(input, {
+        skill: skill.name,
+        intent: input.frame?.intent ?? input.intent.category,
+        slots,
+        missing: missing.map(slot => slot.type),
+        attempts,
+        expiresAt: Date.now() + FRAME_TTL_MS,
+      });
+      const speech = typeof next.prompt === "string" ? next.prompt : next.prompt(slots);
+      return { speech, skill: skill.name };
+    }
+  }
+
+  await saveFrame(input, null);
+  const result = await skill.handle(ready);
+  return result ? { ...result, skill: skill.name } : null;
+}
+
+// Handles a turn with the active frame's skill or the skill registered for
+// the detected intent. Returns null when the LLM should answer instead.
+export async function runDialogueTurn(turn: DialogueTurn): Promise<DialogueResult | null> {
+  const activeFrame = turn.context?.activeFrame;
+  const frame = activeFrame && activeFrame.expiresAt > Date.now() ? activeFrame : undefined;
+  const frameSkill = frame && getSkill(frame.skill);
+
+  if (frame && frameSkill) {
+    if (CANCEL_FRAME.test(turn.text)) {
+      await saveFrame(turn, null);
+      return { speech: "Okay, never mind.", skill: frameSkill.name };
+    }
+
+    const filled = await fillFromAnswer(turn, frame, frameSkill);
+    // A confident request for something else abandons the frame.
+    const switched = filled.length === 0 &&
+      turn.intent.category !== "unknown" &&
+      !frameSkill.categories.includes(turn.intent.category);
+
+    if (!switched) {
+      if (filled.length === 0) {
+        const slot = frameSkill.requiredSlots.find(s => s.type === frame.missing[0]);
+        const answer = slot?.freeText ? extractAnswer(turn.text, slot.type) : undefined;
+        if (answer) filled.push(answer);
+      }
+      return await advance(frameSkill, {
+        ...turn,
+        frame,
+        intent: { category: frame.intent, confidence: turn.intent.confidence, entities: filled },
+      });
+    }
+  }
+
+  const skill = findSkill(turn.intent.category);
+  if (!skill) {
+    await saveFrame(turn, null);
+    return null;
+  }
+  return await advance(skill, turn);
+}
+
+export const setActiveFrame = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    frame: v.optional(dialogueFrameValidator),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return;
+    const { activeFrame: _previous, ...context } = conversation.context;
+    await ctx.db.patch(conversation._id, {
+      context: args.frame ? { ...context, activeFrame: args.frame } : context,
+    });
+  },
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { ExtractionOptions, extractAnswer, extractEntities } from "./entityExtractor";
+
+// Monday 2025-03-10 10:00 UTC.
+const NOW = Date.UTC(2025, 2, 10, 10, 0);
+const MINUTE = 60 * 1000;
+
+function times(text: string, options: ExtractionOptions = { now: NOW }) {
+  return extractEntities(text, [], options)
+    .filter(entity => entity.type === "time")
+    .map(entity => ({ value: entity.value, at: new Date(entity.normalizedValue as number).toISOString() }));
+}
+
+describe("time entities", () => {
+  it("resolves relative times from now", () => {
+    expect(times("remind me in 20 minutes")).toEqual([{ value: "in 20 minutes", at: "2025-03-10T10:20:00.000Z" }]);
+    expect(times("in half an hour")).toEqual([{ value: "in half an hour", at: "2025-03-10T10:30:00.000Z" }]);
+  });
+
+  it("resolves clock times later today", () => {
+    expect(times("call mom at 5pm")).toEqual([{ value: "at 5pm", at: "2025-03-10T17:00:00.000Z" }]);
+    expect(times("call mom at 17:30")).toEqual([{ value: "at 17:30", at: "2025-03-10T17:30:00.000Z" }]);
+    expect(times("lunch at noon")).toEqual([{ value: "at noon", at: "2025-03-10T12:00:00.000Z" }]);
+  });
+
+  it("reads a past clock time without am or pm as the afternoon, else tomorrow", () => {
+    expect(times("call mom at 5")).toEqual([{ value: "at 5", at: "2025-03-10T17:00:00.000Z" }]);
+    expect(times("call mom at 8am")).toEqual([{ value: "at 8am", at: "2025-03-11T08:00:00.000Z" }]);
+  });
+
+  it("pairs a clock time with the day next to it", () => {
+    expect(times("tomorrow at 5pm")).toEqual([{ value: "tomorrow at 5pm", at: "2025-03-11T17:00:00.000Z" }]);
+    expect(times("at 7 tomorrow evening")).toEqual([{ value: "at 7 tomorrow evening", at: "2025-03-11T19:00:00.000Z" }]);
+    expect(times("on friday at 9:15")).toEqual([{ value: "on friday at 9:15", at: "2025-03-14T09:15:00.000Z" }]);
+  });
+
+  it("gives a day on its own its default hour", () => {
+    expect(times("tomorrow")).toEqual([{ value: "tomorrow", at: "2025-03-11T09:00:00.000Z" }]);
+    expect(times("tonight")).toEqual([{ value: "tonight", at: "2025-03-10T20:00:00.000Z" }]);
+    expect(times("next monday")).toEqual([{ value: "next monday", at: "2025-03-17T09:00:00.000Z" }]);
+  });
+
+  it("moves a day on its own past now when its default hour has gone", () => {
+    expect(times("today")).toEqual([{ value: "today", at: "2025-03-10T14:00:00.000Z" }]);
+    expect(times("this morning")).toEqual([{ value: "this morning", at: "2025-03-10T14:00:00.000Z" }]);
+    expect(times("today", { now: NOW + 11 * 60 * MINUTE + 30 * MINUTE })).toEqual([
+      { value: "today", at: "2025-03-10T22:00:00.000Z" },
+    ]);
+  });
+
+  it("resolves times on the user's wall clock", () => {
+    // UTC-5: 10:00 UTC is 5:00 local.
+    const options = { now: NOW, timezoneOffsetMinutes: 300 };
+    expect(times("at 5pm", options)).toEqual([{ value: "at 5pm", at: "2025-03-10T22:00:00.000Z" }]);
+    expect(times("today", options)).toEqual([{ value: "today", at: "2025-03-10T14:00:00.000Z" }]);
+  });
+});
+
+describe("other entities", () => {
+  it("extracts durations and plain numbers", () => {
+    const entities = extractEntities("snooze for 10 minutes and set volume to 7", [], { now: NOW });
+    expect(entities.map(entity => [entity.type, entity.normalizedValue])).toEqual([
+      ["duration", 10 * MINUTE],
+      ["number", 7],
+    ]);
+  });
+
+  it("takes the words after a cue, stopping at time words", () => {
+    const entities = extractEntities("weather in new york tomorrow", [{ type: "location", patterns: ["in"] }], { now: NOW });
+    expect(entities.find(entity => entity.type === "location")).toMatchObject({ value: "new york", normalizedValue: "New York" });
+  });
+
+  it("strips filler from a bare answer", () => {
+    expect(extractAnswer("um, it's London.", "location")).toMatchObject({ value: "London" });
+    expect(extractAnswer("...", "location")).toBeUndefined();
+  });
+});
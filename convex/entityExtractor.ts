@@ -0,0 +1,407 @@
+// Entity extraction.
+//
+// Returns the actual slot values mentioned in an utterance rather than the cue
+// words that introduce them: the city after "in", the artist after "by", a
+// resolved timestamp for "tomorrow at 5pm" or "in 20 minutes", durations in
+// milliseconds and plain numbers. Every entity carries its character span in
+// the original text.
+//
+// Cue-driven types (location, artist and any custom type) use the patterns of
+// the intent's entity definitions. Times, durations and numbers are
+// recognised in every utterance. Everything here is a pure function.
+
+export type EntityDefinition = {
+  type: string;
+  patterns: string[];
+};
+
+export type ExtractedEntity = {
+  type: string;
+  value: string;
+  confidence: number;
+  // Timestamp (ms) for times, milliseconds for durations, a number for
+  // numbers and a canonical spelling for everything else.
+  normalizedValue?: string | number;
+  start: number;
+  end: number;
+};
+
+export type ExtractionOptions = {
+  now: number;
+  // As returned by Date.prototype.getTimezoneOffset on the client: minutes
+  // to add to local time to get UTC. Defaults to UTC.
+  timezoneOffsetMinutes?: number;
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  sec: 1000,
+  minute: MINUTE,
+  min: MINUTE,
+  hour: HOUR,
+  hr: HOUR,
+  day: DAY,
+  week: 7 * DAY,
+};
+
+const SMALL_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = { twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60 };
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const PART_OF_DAY_HOUR: Record<string, number> = { morning: 9, afternoon: 14, evening: 18, night: 20 };
+
+const NUMBER_WORD = `(?:${Object.keys(TENS).join("|")})(?:[\\s-](?:${Object.keys(SMALL_NUMBERS).slice(2, 11).join("|")}))?|${Object.keys(SMALL_NUMBERS).join("|")}`;
+const NUMBER = `(\\d+(?:\\.\\d+)?|${NUMBER_WORD}|half an?)`;
+const UNIT = `(seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?)`;
+
+// Words that end a free-text slot such as a city or an artist name.
+const SLOT_STOP_WORDS = new Set([
+  "today", "tomorrow", "tonight", "now", "this", "next", "morning", "afternoon", "evening", "night",
+  "week", "weekend", ...WEEKDAYS, "and", "or", "please", "right", "like", "at", "in", "for", "on", "to",
+  "with", "is", "be", "will", "would", "should", "a", "an", "me", "my", "some", "something", "any",
+]);
+
+function parseNumber(raw: string): number | undefined {
+  const word = raw.toLowerCase().trim();
+  if (/^\d+(\.\d+)?$/.test(word)) return Number(word);
+  if (/^half an?$/.test(word)) return 0.5;
+  if (word in SMALL_NUMBERS) return SMALL_NUMBERS[word];
+  const [tens, ones] = word.split(/[\s-]/);
+  if (tens in TENS) return TENS[tens] + (ones ? SMALL_NUMBERS[ones] ?? 0 : 0);
+  return undefined;
+}
+
+function unitMs(raw: string) {
+  const unit = raw.toLowerCase().replace(/s$/, "");
+  return UNIT_MS[unit] ?? 0;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function titleCase(value: string) {
+  return value.replace(/\b([a-z])/g, letter => letter.toUpperCase());
+}
+
+// Shifts a UTC timestamp to the user's wall clock so the UTC getters and
+// setters can be used as local ones, and back.
+function toLocal(timestamp: number, offsetMinutes: number) {
+  return new Date(timestamp - offsetMinutes * MINUTE);
+}
+function fromLocal(local: Date, offsetMinutes: number) {
+  return local.getTime() + offsetMinutes * MINUTE;
+}
+
+function extractRelativeTimes(text: string, options: ExtractionOptions): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const pattern = new RegExp(`\\bin\\s+${NUMBER}\\s+${UNIT}\\b`, "gi");
+  for (const match of text.matchAll(pattern)) {
+    const amount = parseNumber(match[1]);
+    const unit = unitMs(match[2]);
+    if (amount === undefined || unit === 0) continue;
+    entities.push({
+      type: "time",
+      value: match[0],
+      confidence: 0.95,
+      normalizedValue: options.now + amount * unit,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return entities;
+}
+
+type Span = { start: number; end: number };
+
+function extractAbsoluteTimes(text: string, options: ExtractionOptions): ExtractedEntity[] {
+  const offset = options.timezoneOffsetMinutes ?? 0;
+  const lower = text.toLowerCase();
+
+  // Clock times: "at 5", "5pm", "17:30", "noon".
+  const clocks: Array<Span & { hour: number; minute: number; hasMeridiem: boolean }> = [];
+  const clockPattern = /\b(?:(at|by)\s+)?(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?|o'clock)?(?=\W|$)/g;
+  for (const match of lower.matchAll(clockPattern)) {
+    const [, cue, hourText, minuteText, meridiem] = match;
+    if (!cue && !minuteText && !meridiem) continue;
+    let hour = Number(hourText);
+    const minute = minuteText ? Number(minuteText) : 0;
+    if (hour > 23 || minute > 59) continue;
+    if (meridiem?.startsWith("p") && hour < 12) hour += 12;
+    if (meridiem?.startsWith("a") && hour === 12) hour = 0;
+    clocks.push({
+      start: match.index,
+      end: match.index + match[0].trimEnd().length,
+      hour,
+      minute,
+      hasMeridiem: Boolean(meridiem && meridiem !== "o'clock") || hour > 12 || Boolean(minuteText && hourText.length === 2),
+    });
+  }
+  for (const match of lower.matchAll(/\b(?:at\s+)?(noon|midday|midnight)\b/g)) {
+    clocks.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      hour: match[1] === "midnight" ? 0 : 12,
+      minute: 0,
+      hasMeridiem: true,
+    });
+  }
+
+  // Days: "today", "tomorrow morning", "next week", "on friday".
+  const days: Array<Span & { dayOffset: number; defaultHour: number }> = [];
+  const nowLocal = toLocal(options.now, offset);
+  const dayPattern = new RegExp(
+    `\\b(?:(today|tonight|tomorrow)(?:\\s+(morning|afternoon|evening|night))?|this\\s+(morning|afternoon|evening)|(next\\s+week)|(?:on\\s+|next\\s+)?(${WEEKDAYS.join("|")}))\\b`,
+    "g",
+  );
+  for (const match of lower.matchAll(dayPattern)) {
+    const [, relativeDay, relativePart, thisPart, nextWeek, weekday] = match;
+    let dayOffset = 0;
+    let defaultHour = 9;
+    if (relativeDay === "tomorrow") dayOffset = 1;
+    if (relativeDay === "tonight") defaultHour = PART_OF_DAY_HOUR.night;
+    const part = relativePart ?? thisPart;
+    if (part) defaultHour = PART_OF_DAY_HOUR[part];
+    if (nextWeek) dayOffset = 7;
+    if (weekday) {
+      dayOffset = (WEEKDAYS.indexOf(weekday) - nowLocal.getUTCDay() + 7) % 7 || 7;
+    }
+    days.push({ start: match.index, end: match.index + match[0].length, dayOffset, defaultHour });
+  }
+
+  const resolve = (dayOffset: number, hour: number, minute: number) => {
+    const local = toLocal(options.now, offset);
+    local.setUTCDate(local.getUTCDate() + dayOffset);
+    local.setUTCHours(hour, minute, 0, 0);
+    return fromLocal(local, offset);
+  };
+
+  // A day on its own gets its default hour or, when that has passed today,
+  // the next part of the day still to come, else the next whole hour.
+  const resolveDay = (day: { dayOffset: number; defaultHour: number }) => {
+    const timestamp = resolve(day.dayOffset, day.defaultHour, 0);
+    if (timestamp > options.now) return timestamp;
+    const hour = nowLocal.getUTCHours();
+    const nextPart = Object.values(PART_OF_DAY_HOUR).filter(partHour => partHour > hour).sort((a, b) => a - b)[0];
+    return resolve(day.dayOffset, nextPart ?? hour + 1, 0);
+  };
+
+  const entities: ExtractedEntity[] = [];
+  const usedDays = new Set<number>();
+  for (const clock of clocks) {
+    // Pair the clock with a day mentioned right next to it, if any.
+    const dayIndex = days.findIndex(day => Math.abs(day.start - clock.end) <= 1 || Math.abs(clock.start - day.end) <= 1);
+    const day = dayIndex >= 0 ? days[dayIndex] : undefined;
+    if (dayIndex >= 0) usedDays.add(dayIndex);
+
+    let timestamp = resolve(day?.dayOffset ?? 0, clock.hour, clock.minute);
+    if (!day && timestamp <= options.now) {
+      // "at 5" in the afternoon most likely means 5pm; otherwise tomorrow.
+      const afternoon = timestamp + 12 * HOUR;
+      timestamp = !clock.hasMeridiem && clock.hour < 12 && afternoon > options.now ? afternoon : timestamp + DAY;
+    } else if (day && !clock.hasMeridiem && clock.hour < 12 && day.defaultHour >= 12) {
+      timestamp += 12 * HOUR;
+    }
+
+    const start = Math.min(clock.start, day?.start ?? clock.start);
+    const end = Math.max(clock.end, day?.end ?? clock.end);
+    entities.push({
+      type: "time",
+      value: text.slice(start, end),
+      confidence: clock.hasMeridiem || day ? 0.9 : 0.75,
+      normalizedValue: timestamp,
+      start,
+      end,
+    });
+  }
+
+  days.forEach((day, index) => {
+    if (usedDays.has(index)) return;
+    entities.push({
+      type: "time",
+      value: text.slice(day.start, day.end),
+      confidence: 0.8,
+      normalizedValue: resolveDay(day),
+      start: day.start,
+      end: day.end,
+    });
+  });
+
+  return entities;
+}
+
+function extractDurations(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const pattern = new RegExp(`\\b(?:for\\s+)?${NUMBER}[\\s-]${UNIT}\\b`, "gi");
+  for (const match of text.matchAll(pattern)) {
+    const amount = parseNumber(match[1]);
+    const unit = unitMs(match[2]);
+    if (amount === undefined || unit === 0) continue;
+    entities.push({
+      type: "duration",
+      value: match[0],
+      confidence: 0.85,
+      normalizedValue: amount * unit,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return entities;
+}
+
+function extractNumbers(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const pattern = new RegExp(`\\b(\\d+(?:\\.\\d+)?|${NUMBER_WORD})\\b`, "gi");
+  for (const match of text.matchAll(pattern)) {
+    // "a"/"an" are only numbers inside a duration.
+    if (/^an?$/i.test(match[0])) continue;
+    const value = parseNumber(match[0]);
+    if (value === undefined) continue;
+    entities.push({
+      type: "number",
+      value: match[0],
+      confidence: /\d/.test(match[0]) ? 0.95 : 0.6,
+      normalizedValue: value,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return entities;
+}
+
+// Free text following a cue word: "in New York", "by the Beatles".
+function extractAfterCues(text: string, definition: EntityDefinition, maxWords: number): ExtractedEntity[] {
+  const cues = definition.patterns.map(p => p.trim()).filter(Boolean).map(escapeRegExp);
+  if (cues.length === 0) return [];
+
+  const entities: ExtractedEntity[] = [];
+  const pattern = new RegExp(`\\b(?:${cues.join("|")})\\s+(?:of\\s+)?`, "gi");
+  for (const match of text.matchAll(pattern)) {
+    const valueStart = match.index + match[0].length;
+    const words = [...text.slice(valueStart).matchAll(/[\p{L}\p{N}][\p{L}\p{N}'.&-]*/gu)];
+
+    const taken: RegExpExecArray[] = [];
+    for (const word of words) {
+      const lower = word[0].toLowerCase();
+      const previousEnd = taken.length > 0 ? taken[taken.length - 1].index + taken[taken.length - 1][0].length : 0;
+      // Stop at punctuation between words.
+      if (taken.length > 0 && /[^\s]/.test(text.slice(valueStart + previousEnd, valueStart + word.index))) break;
+      if (taken.length === 0 && lower === "the") {
+        taken.push(word);
+        continue;
+      }
+      if (SLOT_STOP_WORDS.has(lower) || /^\d/.test(lower) || taken.length >= maxWords) break;
+      taken.push(word);
+    }
+    if (taken.length > 0 && taken[taken.length - 1][0].toLowerCase() === "the") taken.pop();
+    if (taken.length === 0) continue;
+
+    const last = taken[taken.length - 1];
+    const start = valueStart + taken[0].index;
+    const end = valueStart + last.index + last[0].length;
+    const value = text.slice(start, end).replace(/[.]+$/, "");
+    const capitalized = taken.some(word => /^\p{Lu}/u.test(word[0]));
+    entities.push({
+      type: definition.type,
+      value,
+      confidence: capitalized ? 0.9 : 0.7,
+      normalizedValue: titleCase(value.toLowerCase()),
+      start,
+      end: start + value.length,
+    });
+  }
+  return entities;
+}
+
+// Plain keyword match for vocabularies such as genres or custom types.
+function extractKeywords(text: string, definition: EntityDefinition): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  for (const keyword of definition.patterns) {
+    const trimmed = keyword.trim();
+    if (!trimmed) continue;
+    const pattern = new RegExp(`\\b${escapeRegExp(trimmed)}s?\\b`, "gi");
+    for (const match of text.matchAll(pattern)) {
+      entities.push({
+        type: definition.type,
+        value: match[0],
+        confidence: 0.85,
+        normalizedValue: trimmed.toLowerCase(),
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+  return entities;
+}
+
+// Entity types whose patterns are cue words introducing a free-text value,
+// with the maximum number of words to take.
+const CUE_TYPES: Record<string, number> = { location: 3, artist: 4 };
+
+// Types recognised in every utterance, whatever the intent declares.
+const BUILT_IN_TYPES = new Set(["time", "duration", "number"]);
+
+// Drops entities that overlap a more confident (or, on ties, longer) one.
+function resolveOverlaps(entities: ExtractedEntity[]) {
+  const ranked = [...entities].sort((a, b) =>
+    b.confidence - a.confidence || (b.end - b.start) - (a.end - a.start)
+  );
+  const kept: ExtractedEntity[] = [];
+  for (const entity of ranked) {
+    if (kept.every(other => entity.end <= other.start || entity.start >= other.end)) {
+      kept.push(entity);
+    }
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+// A bare answer to a follow-up question, e.g. "London" after "Which city?".
+// Leading filler such as "um" or "it's" and trailing punctuation are dropped.
+export function extractAnswer(text: string, type: string): ExtractedEntity | undefined {
+  const filler = /^(?:(?:um+|uh+|er+|well|so|oh|ok(?:ay)?|it's|it is|that's|that is|in|at|for|to|about)\b[\s,]*)+/i;
+  const leading = text.length - text.trimStart().length;
+  const prefix = text.trimStart().match(filler)?.[0].length ?? 0;
+  const start = leading + prefix;
+  const value = text.slice(start).replace(/[\s.!?,]+$/, "");
+  if (!/[\p{L}\p{N}]/u.test(value)) return undefined;
+  return { type, value, confidence: 0.6, start, end: start + value.length };
+}
+
+export function extractEntities(
+  text: string,
+  definitions: EntityDefinition[],
+  options: ExtractionOptions,
+): ExtractedEntity[] {
+  const candidates: ExtractedEntity[] = [
+    ...extractRelativeTimes(text, options),
+    ...extractAbsoluteTimes(text, options),
+    ...extractDurations(text),
+    ...extractNumbers(text),
+  ];
+
+  for (const definition of definitions) {
+    if (BUILT_IN_TYPES.has(definition.type)) continue;
+    if (definition.type in CUE_TYPES) {
+      candidates.push(...extractAfterCues(text, definition, CUE_TYPES[definition.type]));
+    } else {
+      candidates.push(...extractKeywords(text, definition));
+    }
+  }
+
+  // Numbers are the weakest reading of a span; times and durations win over
+  // them regardless of confidence.
+  const spans = resolveOverlaps(candidates.filter(entity => entity.type !== "number"));
+  const numbers = candidates.filter(entity =>
+    entity.type === "number" && spans.every(other => entity.end <= other.start || entity.start >= other.end)
+  );
+  return [...spans, ...numbers].sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,14 @@
+// Deployment environment variables, with blank values treated as unset.
+
+export function readEnv(name: string): string | undefined {
+  const value = process.env[name];
+  return value && value.trim() !== "" ? value.trim() : undefined;
+}
+
+// A numeric variable, or undefined when it is unset or not a number.
+export function readNumberEnv(name: string): number | undefined {
+  const value = readEnv(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
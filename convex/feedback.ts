@@ -0,0 +1,207 @@
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+
+// Thumbs up/down and corrections on messages. Confirmed or corrected labels on
+// user messages are the ground truth for sentiment and intent accuracy, and
+// the labelled dataset for improving analyzeSentiment and detectIntent.
+
+// Reports and exports cover at most this many of the newest feedback rows.
+const MAX_REPORT_ROWS = 5000;
+
+const ratingValidator = v.union(v.literal("up"), v.literal("down"));
+
+async function labelOptions(ctx: QueryCtx) {
+  const models = await ctx.db.query("sentimentModels").collect();
+  const intents = await ctx.db.query("intents").collect();
+  const emotions = models
+    .filter(model => model.status === undefined || model.status === "active")
+    .flatMap(model => Object.keys(model.emotionKeywords));
+  return {
+    emotions: [...new Set(emotions)],
+    intents: [...intents.filter(intent => intent.enabled !== false).map(intent => intent.category), "unknown"],
+  };
+}
+
+async function getOwnedMessage(ctx: QueryCtx, messageId: Id<"messages">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+  const message = await ctx.db.get(messageId);
+  if (!message || message.userId !== userId) {
+    throw new Error("Message not found");
+  }
+  return message;
+}
+
+async function upsertFeedback(
+  ctx: MutationCtx,
+  message: Doc<"messages">,
+  update: Partial<Pick<Doc<"messageFeedback">, "rating" | "emotionLabel" | "intentLabel">>,
+) {
+  const existing = await ctx.db
+    .query("messageFeedback")
+    .withIndex("by_message", q => q.eq("messageId", message._id))
+    .first();
+  if (existing) {
+    await ctx.db.patch(existing._id, { ...update, updatedAt: Date.now() });
+    return;
+  }
+  await ctx.db.insert("messageFeedback", {
+    userId: message.userId,
+    conversationId: message.conversationId,
+    messageId: message._id,
+    messageType: message.type,
+    text: message.content,
+    predictedEmotion: message.sentiment?.emotion,
+    predictedIntent: message.intent?.category,
+    ...update,
+    updatedAt: Date.now(),
+  });
+}
+
+// Accuracy and a confusion matrix (actual label → predicted → count).
+function confusion(rows: Array<{ label?: string; predicted?: string }>) {
+  const matrix: Record<string, Record<string, number>> = {};
+  const labels = new Set<string>();
+  let labelled = 0;
+  let correct = 0;
+  for (const { label, predicted } of rows) {
+    if (!label || !predicted) continue;
+    labelled++;
+    if (label === predicted) correct++;
+    labels.add(label);
+    labels.add(predicted);
+    matrix[label] ??= {};
+    matrix[label][predicted] = (matrix[label][predicted] ?? 0) + 1;
+  }
+  return {
+    labelled,
+    accuracy: labelled > 0 ? correct / labelled : null,
+    labels: [...labels].sort(),
+    matrix,
+  };
+}
+
+async function recentFeedback(ctx: QueryCtx) {
+  return await ctx.db
+    .query("messageFeedback")
+    .withIndex("by_updated")
+    .order("desc")
+    .take(MAX_REPORT_ROWS);
+}
+
+// Emotions and intents a message can be relabelled with.
+export const getLabelOptions = query({
+  args: {},
+  handler: async (ctx) => {
+    return await labelOptions(ctx);
+  },
+});
+
+// The signed-in user's feedback on a session's messages.
+export const listForSession = query({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const conversation = await ctx.db
+      .query("conversations")
+      .withIndex("by_user_and_session", q => q.eq("userId", userId).eq("sessionId", args.sessionId))
+      .first();
+    if (!conversation) return [];
+
+    return await ctx.db
+      .query("messageFeedback")
+      .withIndex("by_conversation", q => q.eq("conversationId", conversation._id))
+      .collect();
+  },
+});
+
+// Thumbs up on a user message confirms the detected emotion and intent.
+export const rate = mutation({
+  args: {
+    messageId: v.id("messages"),
+    rating: ratingValidator,
+  },
+  handler: async (ctx, args) => {
+    const message = await getOwnedMessage(ctx, args.messageId);
+    // Thumbs down on a user message says something was wrong but not what,
+    // so it leaves the message unlabelled until it is corrected.
+    const labels = message.type !== "user"
+      ? {}
+      : args.rating === "up"
+        ? { emotionLabel: message.sentiment?.emotion, intentLabel: message.intent?.category }
+        : { emotionLabel: undefined, intentLabel: undefined };
+    await upsertFeedback(ctx, message, { rating: args.rating, ...labels });
+  },
+});
+
+// "That's not what I meant": relabels the emotion and/or intent of a user message.
+export const correct = mutation({
+  args: {
+    messageId: v.id("messages"),
+    emotion: v.optional(v.string()),
+    intent: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const message = await getOwnedMessage(ctx, args.messageId);
+    if (message.type !== "user") {
+      throw new Error("Only your own messages can be relabelled");
+    }
+
+    const options = await labelOptions(ctx);
+    if (args.emotion !== undefined && !options.emotions.includes(args.emotion)) {
+      throw new Error(`Unknown emotion "${args.emotion}"`);
+    }
+    if (args.intent !== undefined && !options.intents.includes(args.intent)) {
+      throw new Error(`Unknown intent "${args.intent}"`);
+    }
+
+    const emotionLabel = args.emotion ?? message.sentiment?.emotion;
+    const intentLabel = args.intent ?? message.intent?.category;
+    const isCorrect = emotionLabel === message.sentiment?.emotion && intentLabel === message.intent?.category;
+    await upsertFeedback(ctx, message, { rating: isCorrect ? "up" : "down", emotionLabel, intentLabel });
+  },
+});
+
+// Sentiment and intent accuracy against user labels, and reply ratings.
+export const report = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const rows = await recentFeedback(ctx);
+    const userRows = rows.filter(row => row.messageType === "user");
+    const replyRows = rows.filter(row => row.messageType === "assistant" && row.rating);
+    return {
+      sentiment: confusion(userRows.map(row => ({ label: row.emotionLabel, predicted: row.predictedEmotion }))),
+      intent: confusion(userRows.map(row => ({ label: row.intentLabel, predicted: row.predictedIntent }))),
+      replies: {
+        rated: replyRows.length,
+        positiveRate: replyRows.length > 0 ? replyRows.filter(row => row.rating === "up").length / replyRows.length : null,
+      },
+    };
+  },
+});
+
+// Labelled user messages, for offline evaluation and training.
+export const exportDataset = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const rows = await recentFeedback(ctx);
+    return rows
+      .filter(row => row.messageType === "user" && (row.emotionLabel || row.intentLabel))
+      .map(row => ({
+        text: row.text,
+        emotion: row.emotionLabel,
+        intent: row.intentLabel,
+      }));
+  },
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { containsSequence, normalizeText, rankIntents, stem, toTerms } from "./intentClassifier";
+
+const INTENTS = [
+  { category: "greeting", patterns: ["hi", "hello", "good morning"], requiredConfidence: 0.3 },
+  { category: "weather", patterns: ["weather", "forecast", "rain"], requiredConfidence: 0.3 },
+  { category: "reminder", patterns: ["remind me", "reminder", "don't forget"], requiredConfidence: 0.3 },
+  { category: "emotion_support", patterns: ["worry", "sad", "anxious"], requiredConfidence: 0.3 },
+];
+
+describe("terms", () => {
+  it("normalizes case, accents and contractions", () => {
+    expect(normalizeText("Café, I CAN'T")).toContain("cafe");
+    expect(toTerms("I can't go")).toEqual(toTerms("I can not go"));
+  });
+
+  it("stems inflections onto the same term", () => {
+    expect(stem("worried")).toBe(stem("worry"));
+    expect(stem("reminders")).toBe(stem("reminder"));
+  });
+
+  it("matches whole words in order only", () => {
+    expect(containsSequence(toTerms("is this fine"), toTerms("hi"))).toBe(false);
+    expect(containsSequence(toTerms("what is the weather today"), toTerms("the weather"))).toBe(true);
+    expect(containsSequence(toTerms("weather the"), toTerms("the weather"))).toBe(false);
+  });
+});
+
+describe("rankIntents", () => {
+  it.each([
+    ["hi there", "greeting"],
+    ["will it rain tomorrow", "weather"],
+    ["remind me to call mom", "reminder"],
+    ["I'm worried about my exam", "emotion_support"],
+  ])("classifies %j as %s", (text, category) => {
+    expect(rankIntents(text, INTENTS).category).toBe(category);
+  });
+
+  it("doesn't match a pattern inside another word", () => {
+    expect(rankIntents("this is fine", INTENTS).category).toBe("unknown");
+  });
+
+  it("returns unknown when nothing clears its threshold", () => {
+    expect(rankIntents("purple elephants dance quietly", INTENTS)).toMatchObject({ category: "unknown", confidence: 0 });
+  });
+
+  it("explains which patterns matched and lists the runners-up", () => {
+    const ranking = rankIntents("hi, is rain in the forecast", INTENTS);
+    expect(ranking.explanation.map(score => score.category)).toEqual(["weather", "greeting"]);
+    expect(ranking.explanation[0].contributions.map(c => c.pattern)).toEqual(["forecast", "rain"]);
+    expect(ranking.alternatives.map(alternative => alternative.category)).toEqual(["greeting"]);
+  });
+
+  it("doesn't penalize intents for having many patterns", () => {
+    const intents = [
+      { category: "short", patterns: ["alpha"], requiredConfidence: 0.3 },
+      { category: "long", patterns: ["beta", "gamma", "delta", "epsilon", "zeta"], requiredConfidence: 0.3 },
+    ];
+    expect(rankIntents("beta", intents).confidence).toBeCloseTo(rankIntents("alpha", intents).confidence);
+  });
+});
@@ -0,0 +1,181 @@
+// Token-based intent classifier.
+//
+// Utterances and intent patterns are normalized, tokenized on word boundaries
+// and lightly stemmed, so "hi" no longer matches inside "this" and "worried"
+// matches the pattern "worry". Each pattern is an n-gram that has to appear
+// contiguously in the utterance. Pattern terms are weighted by inverse
+// document frequency across intents: a word that only one intent uses counts
+// for more than one shared by several. An intent's confidence depends on how
+// much weighted evidence matched, not on how many patterns it defines, so
+// intents with long pattern lists are not penalized.
+//
+// Everything here is a pure function so it can run outside of Convex.
+
+export type IntentDefinition = {
+  category: string;
+  patterns: string[];
+  requiredConfidence: number;
+};
+
+export type PatternContribution = {
+  pattern: string;
+  terms: string[];
+  weight: number;
+};
+
+export type IntentScore = {
+  category: string;
+  score: number;
+  confidence: number;
+  requiredConfidence: number;
+  contributions: PatternContribution[];
+};
+
+export type IntentRanking = {
+  category: string;
+  confidence: number;
+  // Other intents that matched, best first.
+  alternatives: Array<{ category: string; confidence: number }>;
+  // Per-intent breakdown of which patterns contributed, best first.
+  explanation: IntentScore[];
+};
+
+// How quickly accumulated evidence saturates towards a confidence of 1. With
+// the default intents a single pattern unique to one intent scores ~0.86.
+const EVIDENCE_SCALE = 1.0;
+const MAX_ALTERNATIVES = 3;
+
+const CONTRACTIONS: Array<[RegExp, string]> = [
+  [/\bcan't\b/g, "can not"],
+  [/\bwon't\b/g, "will not"],
+  [/n't\b/g, " not"],
+  [/'(s|re|m|ll|ve|d)\b/g, ""],
+];
+
+export function normalizeText(text: string): string {
+  let normalized = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'");
+  for (const [pattern, replacement] of CONTRACTIONS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized;
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(/[a-z0-9]+/g) ?? [];
+}
+
+// A deliberately small suffix stripper: enough to line up inflections such as
+// worried/worry, songs/song or raining/rain without an external dependency.
+export function stem(token: string): string {
+  if (token.length <= 3 || /^\d+$/.test(token)) return token;
+
+  let stemmed = token;
+  if (stemmed.endsWith("ies") || stemmed.endsWith("ied")) {
+    stemmed = stemmed.slice(0, -3) + "y";
+  } else if (/(ss|x|z|ch|sh)es$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -2);
+  } else {
+    for (const suffix of ["ingly", "edly", "ing", "ed", "ly"]) {
+      if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+        stemmed = stemmed.slice(0, -suffix.length);
+        // running -> runn -> run
+        if (/([^aeiouls])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+        break;
+      }
+    }
+    if (stemmed === token && stemmed.endsWith("s") && !stemmed.endsWith("ss") && !stemmed.endsWith("us")) {
+      stemmed = stemmed.slice(0, -1);
+    }
+  }
+
+  if (stemmed.length > 4 && stemmed.endsWith("e")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+export function toTerms(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+// True when `needle` appears as a contiguous run of terms in `haystack`.
+export function containsSequence(haystack: string[], needle: string[]) {
+  if (needle.length === 0 || needle.length > haystack.length) return false;
+  outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+// Inverse document frequency of every pattern term, treating each intent's
+// patterns as one document.
+export function computeIdf(intents: IntentDefinition[]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  for (const intent of intents) {
+    const terms = new Set(intent.patterns.flatMap(toTerms));
+    for (const term of terms) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log(1 + intents.length / frequency));
+  }
+  return idf;
+}
+
+export function scoreIntent(utteranceTerms: string[], intent: IntentDefinition, idf: Map<string, number>): IntentScore {
+  const contributions: PatternContribution[] = [];
+  const seen = new Set<string>();
+
+  for (const pattern of intent.patterns) {
+    const terms = toTerms(pattern);
+    const key = terms.join(" ");
+    if (seen.has(key) || !containsSequence(utteranceTerms, terms)) continue;
+    seen.add(key);
+    const weight = terms.reduce((sum, term) => sum + (idf.get(term) ?? 0), 0);
+    contributions.push({ pattern, terms, weight });
+  }
+
+  const score = contributions.reduce((sum, c) => sum + c.weight, 0);
+  return {
+    category: intent.category,
+    score,
+    confidence: 1 - Math.exp(-score / EVIDENCE_SCALE),
+    requiredConfidence: intent.requiredConfidence,
+    contributions: contributions.sort((a, b) => b.weight - a.weight),
+  };
+}
+
+// Ranks every intent against the utterance. The winner is the best-scoring
+// intent that clears its own requiredConfidence; ties go to the stricter
+// (more specific) intent.
+export function rankIntents(text: string, intents: IntentDefinition[]): IntentRanking {
+  const idf = computeIdf(intents);
+  const terms = toTerms(text);
+
+  const scores = intents
+    .map(intent => scoreIntent(terms, intent, idf))
+    .filter(score => score.score > 0)
+    .sort((a, b) => b.confidence - a.confidence || b.requiredConfidence - a.requiredConfidence);
+
+  const winner = scores.find(score => score.confidence >= score.requiredConfidence);
+
+  return {
+    category: winner?.category ?? "unknown",
+    confidence: winner?.confidence ?? 0,
+    alternatives: scores
+      .filter(score => score !== winner)
+      .slice(0, MAX_ALTERNATIVES)
+      .map(score => ({ category: score.category, confidence: score.confidence })),
+    explanation: scores,
+  };
+}
@@ -0,0 +1,261 @@
+import { query, mutation, action, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { api, internal } from "./_generated/api";
+import { requireAdmin } from "./auth";
+import type { IntentDetection } from "./nlu";
+import { SentimentExplanation, explainSentiment } from "./sentimentAnalyzer";
+import { routeResponse } from "./responseRouter";
+import { findSkill } from "./skills";
+import type { Routing } from "./validators";
+
+// Admin management of the intents used by detectIntent. Every change bumps
+// the intent's version and stores a snapshot in intentVersions so earlier
+// revisions can be inspected and restored.
+
+const intentFields = {
+  category: v.string(),
+  patterns: v.array(v.string()),
+  responses: v.array(v.string()),
+  entities: v.array(v.object({
+    type: v.string(),
+    patterns: v.array(v.string()),
+  })),
+  requiredConfidence: v.number(),
+};
+
+type IntentFields = Pick<Doc<"intents">, "category" | "patterns" | "responses" | "entities" | "requiredConfidence">;
+
+function normalizeFields(fields: IntentFields): IntentFields {
+  const clean = (values: string[]) => values.map(value => value.trim()).filter(value => value.length > 0);
+
+  const normalized = {
+    category: fields.category.trim(),
+    patterns: clean(fields.patterns),
+    responses: clean(fields.responses),
+    entities: fields.entities
+      .map(entity => ({ type: entity.type.trim(), patterns: clean(entity.patterns) }))
+      .filter(entity => entity.type.length > 0),
+    requiredConfidence: fields.requiredConfidence,
+  };
+
+  if (!/^[a-z][a-z0-9_]*$/.test(normalized.category)) {
+    throw new Error("Category must be lowercase letters, digits and underscores");
+  }
+  if (normalized.patterns.length === 0) {
+    throw new Error("An intent needs at least one pattern");
+  }
+  if (normalized.requiredConfidence < 0 || normalized.requiredConfidence > 1) {
+    throw new Error("Required confidence must be between 0 and 1");
+  }
+  return normalized;
+}
+
+async function assertCategoryAvailable(ctx: MutationCtx, category: string, exceptId?: Id<"intents">) {
+  const existing = await ctx.db
+    .query("intents")
+    .withIndex("by_category", q => q.eq("category", category))
+    .first();
+  if (existing && existing._id !== exceptId) {
+    throw new Error(`An intent with category "${category}" already exists`);
+  }
+}
+
+// Applies a new revision to an intent and records its snapshot.
+async function saveRevision(
+  ctx: MutationCtx,
+  intent: Doc<"intents">,
+  changes: Partial<IntentFields> & { enabled?: boolean },
+  userId: Id<"users">,
+) {
+  const version = (intent.version ?? 1) + 1;
+  const updatedAt = Date.now();
+
+  // Intents seeded by initializeDefaults have no history yet; keep their
+  // original contents as version 1.
+  if (intent.version === undefined) {
+    await ctx.db.insert("intentVersions", {
+      intentId: intent._id,
+      version: 1,
+      category: intent.category,
+      patterns: intent.patterns,
+      responses: intent.responses,
+      entities: intent.entities,
+      requiredConfidence: intent.requiredConfidence,
+      enabled: intent.enabled !== false,
+      createdAt: intent._creationTime,
+      createdBy: userId,
+    });
+  }
+
+  await ctx.db.patch(intent._id, { ...changes, version, updatedAt, updatedBy: userId });
+
+  const updated = (await ctx.db.get(intent._id))!;
+  await ctx.db.insert("intentVersions", {
+    intentId: intent._id,
+    version,
+    category: updated.category,
+    patterns: updated.patterns,
+    responses: updated.responses,
+    entities: updated.entities,
+    requiredConfidence: updated.requiredConfidence,
+    enabled: updated.enabled !== false,
+    createdAt: updatedAt,
+    createdBy: userId,
+  });
+  return version;
+}
+
+async function getIntentOrThrow(ctx: MutationCtx, intentId: Id<"intents">) {
+  const intent = await ctx.db.get(intentId);
+  if (!intent) {
+    throw new Error("Intent not found");
+  }
+  return intent;
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const intents = await ctx.db.query("intents").collect();
+    return intents
+      .map(intent => ({ ...intent, enabled: intent.enabled !== false, version: intent.version ?? 1 }))
+      .sort((a, b) => a.category.localeCompare(b.category));
+  },
+});
+
+export const create = mutation({
+  args: intentFields,
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const fields = normalizeFields(args);
+    await assertCategoryAvailable(ctx, fields.category);
+
+    const now = Date.now();
+    const intentId = await ctx.db.insert("intents", {
+      ...fields,
+      enabled: true,
+      version: 1,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+    await ctx.db.insert("intentVersions", {
+      intentId,
+      version: 1,
+      ...fields,
+      enabled: true,
+      createdAt: now,
+      createdBy: userId,
+    });
+    return intentId;
+  },
+});
+
+export const update = mutation({
+  args: {
+    intentId: v.id("intents"),
+    ...intentFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const intent = await getIntentOrThrow(ctx, args.intentId);
+    const { intentId: _intentId, ...rest } = args;
+    const fields = normalizeFields(rest);
+    await assertCategoryAvailable(ctx, fields.category, intent._id);
+
+    return await saveRevision(ctx, intent, fields, userId);
+  },
+});
+
+// Disabled intents are kept (with their history) but ignored by detectIntent.
+export const setEnabled = mutation({
+  args: {
+    intentId: v.id("intents"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const intent = await getIntentOrThrow(ctx, args.intentId);
+    if ((intent.enabled !== false) === args.enabled) return intent.version ?? 1;
+
+    return await saveRevision(ctx, intent, { enabled: args.enabled }, userId);
+  },
+});
+
+export const listVersions = query({
+  args: { intentId: v.id("intents") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return await ctx.db
+      .query("intentVersions")
+      .withIndex("by_intent_and_version", q => q.eq("intentId", args.intentId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Restoring a version saves its contents as a new revision, so history is
+// never rewritten.
+export const restoreVersion = mutation({
+  args: {
+    intentId: v.id("intents"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const intent = await getIntentOrThrow(ctx, args.intentId);
+    const snapshot = await ctx.db
+      .query("intentVersions")
+      .withIndex("by_intent_and_version", q => q.eq("intentId", args.intentId).eq("version", args.version))
+      .first();
+    if (!snapshot) {
+      throw new Error(`Version ${args.version} not found`);
+    }
+    await assertCategoryAvailable(ctx, snapshot.category, intent._id);
+
+    return await saveRevision(ctx, intent, {
+      category: snapshot.category,
+      patterns: snapshot.patterns,
+      responses: snapshot.responses,
+      entities: snapshot.entities,
+      requiredConfidence: snapshot.requiredConfidence,
+      enabled: snapshot.enabled,
+    }, userId);
+  },
+});
+
+// Runs an utterance through the live detectIntent pipeline.
+export const testUtterance = action({
+  args: {
+    text: v.string(),
+    timezoneOffset: v.optional(v.number()),
+    locale: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<IntentDetection & { sentiment: SentimentExplanation | null; routing: Routing | null }> => {
+    const user = await ctx.runQuery(api.auth.loggedInUser);
+    if (user?.role !== "admin") {
+      throw new Error("Admin access required");
+    }
+    const detection: IntentDetection = await ctx.runAction(api.voiceAssistant.detectIntent, {
+      text: args.text,
+      timezoneOffset: args.timezoneOffset,
+    });
+    const { active } = await ctx.runQuery(internal.sentimentModels.resolve, { locale: args.locale });
+    const explanation = active && explainSentiment(args.text, active);
+    return {
+      ...detection,
+      sentiment: explanation && {
+        ...explanation,
+        sentiment: { ...explanation.sentiment, model: active.name, modelVersion: active.version ?? 1 },
+      },
+      // How the turn would be answered, ignoring the safety layer, moderation
+      // and any dialogue in progress.
+      routing: explanation && routeResponse({
+        intent: detection,
+        sentiment: explanation.sentiment,
+        skill: findSkill(detection.category)?.name,
+      }),
+    };
+  },
+});
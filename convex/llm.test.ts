@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LLMError, StreamStopped, streamChat } from "./llm";
+
+const messages = [{ role: "user" as const, content: "hello there" }];
+const params = { maxTokens: 100, temperature: 0.7 };
+
+describe("streamChat", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_PROVIDERS", "mock");
+    vi.stubEnv("MOCK_LLM_RESPONSE", "One two three four.");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("streams the reply and records the attempt", async () => {
+    const deltas: string[] = [];
+    const result = await streamChat(messages, params, delta => {
+      deltas.push(delta);
+    });
+    expect(deltas).toEqual(["One ", "two ", "three ", "four."]);
+    expect(result).toMatchObject({ text: "One two three four.", provider: "mock", model: "mock" });
+    expect(result.attempts).toHaveLength(1);
+    expect(result.attempts[0].error).toBeUndefined();
+  });
+
+  it("rethrows StreamStopped without recording a failed attempt", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const deltas: string[] = [];
+    const stream = streamChat(messages, params, delta => {
+      deltas.push(delta);
+      if (deltas.length === 2) throw new StreamStopped("Response interrupted by the user");
+    });
+
+    const error = await stream.catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(StreamStopped);
+    expect((error as StreamStopped).result).toMatchObject({ text: "One two ", provider: "mock" });
+    expect((error as StreamStopped).result?.attempts.every(attempt => !attempt.error)).toBe(true);
+    expect(deltas).toHaveLength(2);
+    expect(logged).not.toHaveBeenCalled();
+  });
+
+  it("reports other handler errors as provider failures", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const stream = streamChat(messages, params, () => {
+      throw new Error("socket closed");
+    });
+    const error = await stream.catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(LLMError);
+    expect((error as LLMError).code).toBe("stream_interrupted");
+    expect((error as LLMError).attempts.map(attempt => attempt.error)).toEqual(["network_error"]);
+  });
+
+  it("fails when every provider fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv("MOCK_LLM_FAIL", "1");
+    const error = await streamChat(messages, params, () => {}).catch((error: unknown) => error);
+    expect(error).toMatchObject({ code: "all_providers_failed" });
+  });
+
+  it("doesn't leave abort listeners behind after waiting between tokens", async () => {
+    vi.stubEnv("MOCK_LLM_TOKEN_DELAY_MS", "1");
+    const added = vi.spyOn(AbortSignal.prototype, "addEventListener");
+    const removed = vi.spyOn(AbortSignal.prototype, "removeEventListener");
+    await streamChat(messages, params, () => {});
+    expect(added.mock.calls.length).toBeGreaterThan(0);
+    expect(removed.mock.calls.map(call => call[1])).toEqual(added.mock.calls.map(call => call[1]));
+  });
+
+  it("skips stream chunks without text from an OpenAI-compatible provider", async () => {
+    vi.stubEnv("LLM_PROVIDERS", "openai");
+    vi.stubEnv("CONVEX_OPENAI_API_KEY", "test-key");
+    const events = [
+      { choices: [{ delta: { role: "assistant" } }] },
+      { choices: [{ delta: { content: "Hi " } }] },
+      { choices: "none" },
+      42,
+      { choices: [null] },
+      { choices: [{ delta: { content: "there." } }] },
+    ];
+    const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join("") + "data: [DONE]\n\n";
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body)));
+    const deltas: string[] = [];
+    const result = await streamChat(messages, params, delta => {
+      deltas.push(delta);
+    });
+    expect(deltas).toEqual(["Hi ", "there."]);
+    expect(result).toMatchObject({ text: "Hi there.", provider: "openai" });
+  });
+});
@@ -0,0 +1,460 @@
+// LLM provider layer.
+//
+// Every chat completion goes through `completeChat`, which walks the
+// configured providers in order, gives each one its own timeout and falls
+// through to the next on failure. Providers are looked up by name in a small
+// registry so a deployment can pick (and order) them with environment
+// variables:
+//
+//   LLM_PROVIDERS          comma separated order, default "openrouter,openai"
+//   LLM_MODEL              model used by every provider unless overridden
+//   LLM_TEMPERATURE        overrides the temperature requested by callers
+//   LLM_TIMEOUT_MS         per-provider timeout, default 15000
+//   <PROVIDER>_MODEL       per-provider model, e.g. OPENROUTER_MODEL
+//   <PROVIDER>_TIMEOUT_MS  per-provider timeout, e.g. OPENAI_TIMEOUT_MS
+//
+// The "mock" provider needs no network access and is meant for offline
+// development: set LLM_PROVIDERS=mock (optionally MOCK_LLM_RESPONSE,
+// MOCK_LLM_DELAY_MS and MOCK_LLM_FAIL to exercise timeouts and failover, and
+// MOCK_LLM_TOKEN_DELAY_MS to slow down streamed tokens).
+
+import { readEnv, readNumberEnv } from "./env";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type CompletionParams = {
+  maxTokens: number;
+  temperature: number;
+};
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  timeoutMs: number;
+  complete(messages: ChatMessage[], params: CompletionParams, signal: AbortSignal): Promise<string>;
+  // Streams the completion, calling `onDelta` with each text fragment. The
+  // promise resolves once the provider has finished the response.
+  stream(messages: ChatMessage[], params: CompletionParams, signal: AbortSignal, onDelta: DeltaHandler): Promise<void>;
+}
+
+export type DeltaHandler = (delta: string) => void | Promise<void>;
+
+export type LLMErrorCode =
+  | "not_configured"
+  | "timeout"
+  | "http_error"
+  | "network_error"
+  | "invalid_response"
+  | "stream_interrupted"
+  | "all_providers_failed";
+
+export type LLMAttempt = {
+  provider: string;
+  model: string;
+  durationMs: number;
+  error?: LLMErrorCode;
+};
+
+export type CompletionResult = {
+  text: string;
+  provider: string;
+  model: string;
+  attempts: LLMAttempt[];
+};
+
+export type StreamResult = CompletionResult & {
+  // Milliseconds from the start of the call to the first streamed fragment.
+  firstTokenMs: number;
+};
+
+// The error type for provider failures. `attempts` lists every provider that
+// was tried before giving up.
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    readonly code: LLMErrorCode,
+    readonly provider?: string,
+    readonly status?: number,
+    readonly attempts: LLMAttempt[] = [],
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+// Thrown by an onDelta handler to end a stream on purpose, e.g. when the user
+// talks over the reply. streamChat aborts the provider without counting it as
+// a failure and rethrows the error with what was streamed so far in `result`.
+export class StreamStopped extends Error {
+  result?: StreamResult;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "StreamStopped";
+  }
+}
+
+type ProviderFactory = (name: string) => LLMProvider | null;
+
+const DEFAULT_PROVIDER_ORDER = ["openrouter", "openai"];
+const DEFAULT_TIMEOUT_MS = 15000;
+
+function envPrefix(name: string) {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+function resolveModel(name: string, fallback: string) {
+  return readEnv(`${envPrefix(name)}_MODEL`) ?? readEnv("LLM_MODEL") ?? fallback;
+}
+
+function resolveTimeout(name: string) {
+  return readNumberEnv(`${envPrefix(name)}_TIMEOUT_MS`) ?? readNumberEnv("LLM_TIMEOUT_MS") ?? DEFAULT_TIMEOUT_MS;
+}
+
+// The part of a streamed chat completion chunk that carries the text.
+type StreamChunk = { choices?: Array<{ delta?: { content?: unknown } } | null> };
+
+function isStreamChunk(value: unknown): value is StreamChunk {
+  return typeof value === "object" && value !== null && (!("choices" in value) || Array.isArray(value.choices));
+}
+
+// Shared implementation for every endpoint that speaks the OpenAI chat
+// completions protocol.
+function openAICompatibleProvider(options: {
+  name: string;
+  url: string;
+  apiKey: string;
+  model: string;
+  headers?: Record<string, string>;
+}): LLMProvider {
+  return {
+    name: options.name,
+    model: options.model,
+    timeoutMs: resolveTimeout(options.name),
+    async complete(messages, params, signal) {
+      const response = await send(messages, params, signal, false);
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new LLMError(`${options.name} returned no message content`, "invalid_response", options.name);
+      }
+      return content;
+    },
+    async stream(messages, params, signal, onDelta) {
+      const response = await send(messages, params, signal, true);
+      if (!response.body) {
+        throw new LLMError(`${options.name} returned an empty stream`, "invalid_response", options.name);
+      }
+
+      // Server-sent events: one `data: {...}` line per chunk, ending with
+      // `data: [DONE]`.
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") return;
+
+          let chunk: unknown;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            throw new LLMError(`${options.name} sent a malformed stream chunk`, "invalid_response", options.name);
+          }
+          const delta = isStreamChunk(chunk) ? chunk.choices?.[0]?.delta?.content : undefined;
+          if (typeof delta === "string" && delta.length > 0) {
+            await onDelta(delta);
+          }
+        }
+      }
+    },
+  };
+
+  async function send(messages: ChatMessage[], params: CompletionParams, signal: AbortSignal, stream: boolean) {
+    let response: Response;
+    try {
+      response = await fetch(options.url, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${options.apiKey}`,
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages,
+          max_tokens: params.maxTokens,
+          temperature: params.temperature,
+          stream,
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new LLMError(`${options.name} request failed: ${String(error)}`, "network_error", options.name);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError(
+        `${options.name} API error: ${response.status} - ${errorText}`,
+        "http_error",
+        options.name,
+        response.status,
+      );
+    }
+    return response;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const providerRegistry: Record<string, ProviderFactory> = {
+  openrouter: (name) => {
+    const apiKey = readEnv("OPENROUTER_API_KEY");
+    if (!apiKey) return null;
+    return openAICompatibleProvider({
+      name,
+      url: `${readEnv("OPENROUTER_BASE_URL") ?? "https://openrouter.ai/api"}/v1/chat/completions`,
+      apiKey,
+      model: resolveModel(name, "openai/gpt-4o-mini"),
+      headers: {
+        "HTTP-Referer": "https://convex.dev",
+        "X-Title": "Voice Assistant AI",
+      },
+    });
+  },
+
+  // Any OpenAI-compatible endpoint (OpenAI itself, the Convex proxy, a
+  // self-hosted server...).
+  openai: (name) => {
+    const apiKey = readEnv("CONVEX_OPENAI_API_KEY");
+    if (!apiKey) return null;
+    return openAICompatibleProvider({
+      name,
+      url: `${readEnv("CONVEX_OPENAI_BASE_URL") ?? "https://api.openai.com"}/v1/chat/completions`,
+      apiKey,
+      model: resolveModel(name, "gpt-4o-mini"),
+    });
+  },
+
+  mock: (name) => {
+    const respond = async (messages: ChatMessage[], signal: AbortSignal) => {
+      const delay = readNumberEnv("MOCK_LLM_DELAY_MS") ?? 0;
+      if (delay > 0) await sleep(delay, signal);
+      if (readEnv("MOCK_LLM_FAIL")) {
+        throw new LLMError("Mock provider configured to fail", "http_error", name, 500);
+      }
+      const fixed = readEnv("MOCK_LLM_RESPONSE");
+      if (fixed) return fixed;
+      const lastUser = [...messages].reverse().find(m => m.role === "user");
+      return `You said: "${lastUser?.content ?? ""}". This is a mock response.`;
+    };
+
+    return {
+      name,
+      model: "mock",
+      timeoutMs: resolveTimeout(name),
+      complete: (messages, _params, signal) => respond(messages, signal),
+      async stream(messages, _params, signal, onDelta) {
+        const text = await respond(messages, signal);
+        const tokenDelay = readNumberEnv("MOCK_LLM_TOKEN_DELAY_MS") ?? 0;
+        for (const token of text.match(/\S+\s*/g) ?? []) {
+          if (tokenDelay > 0) await sleep(tokenDelay, signal);
+          await onDelta(token);
+        }
+      },
+    };
+  },
+};
+
+// Makes an additional provider available to LLM_PROVIDERS.
+export function registerProvider(name: string, factory: ProviderFactory) {
+  providerRegistry[name] = factory;
+}
+
+// Providers that are both listed in LLM_PROVIDERS and configured, in order.
+export function getConfiguredProviders(): LLMProvider[] {
+  const order = readEnv("LLM_PROVIDERS")?.split(",").map(p => p.trim()).filter(Boolean) ?? DEFAULT_PROVIDER_ORDER;
+
+  const providers: LLMProvider[] = [];
+  for (const name of order) {
+    const factory = providerRegistry[name];
+    if (!factory) {
+      console.warn(`Unknown LLM provider "${name}" in LLM_PROVIDERS`);
+      continue;
+    }
+    const provider = factory(name);
+    if (provider) providers.push(provider);
+  }
+  return providers;
+}
+
+function toLLMError(error: unknown, provider: LLMProvider, timedOut: boolean): LLMError {
+  if (timedOut) {
+    return new LLMError(`${provider.name} timed out after ${provider.timeoutMs}ms`, "timeout", provider.name);
+  }
+  if (error instanceof LLMError) return error;
+  return new LLMError(`${provider.name} failed: ${String(error)}`, "network_error", provider.name);
+}
+
+function resolveParams(params: CompletionParams): CompletionParams {
+  return {
+    ...params,
+    temperature: readNumberEnv("LLM_TEMPERATURE") ?? params.temperature,
+  };
+}
+
+// Runs a chat completion against the configured providers in order, returning
+// the first successful answer.
+export async function completeChat(messages: ChatMessage[], params: CompletionParams): Promise<CompletionResult> {
+  const providers = getConfiguredProviders();
+  if (providers.length === 0) {
+    throw new LLMError("No LLM providers configured", "not_configured");
+  }
+
+  const resolvedParams = resolveParams(params);
+  const attempts: LLMAttempt[] = [];
+  for (const provider of providers) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, provider.timeoutMs);
+    const startedAt = Date.now();
+
+    try {
+      const text = await provider.complete(messages, resolvedParams, controller.signal);
+      attempts.push({ provider: provider.name, model: provider.model, durationMs: Date.now() - startedAt });
+      return { text, provider: provider.name, model: provider.model, attempts };
+    } catch (error) {
+      const llmError = toLLMError(error, provider, timedOut);
+      attempts.push({
+        provider: provider.name,
+        model: provider.model,
+        durationMs: Date.now() - startedAt,
+        error: llmError.code,
+      });
+      console.error(`LLM provider ${provider.name} failed:`, llmError.message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new LLMError("All LLM providers failed", "all_providers_failed", undefined, undefined, attempts);
+}
+
+// Streaming counterpart of `completeChat`. The provider timeout applies to the
+// gap between fragments rather than to the whole response. Failover is only
+// possible until the first fragment has been delivered; a provider that fails
+// after that raises a "stream_interrupted" error and the caller keeps whatever
+// it already received. Throwing StreamStopped from `onDelta` ends the stream
+// early without trying another provider.
+export async function streamChat(
+  messages: ChatMessage[],
+  params: CompletionParams,
+  onDelta: DeltaHandler,
+): Promise<StreamResult> {
+  const providers = getConfiguredProviders();
+  if (providers.length === 0) {
+    throw new LLMError("No LLM providers configured", "not_configured");
+  }
+
+  const resolvedParams = resolveParams(params);
+  const callStartedAt = Date.now();
+  const attempts: LLMAttempt[] = [];
+  for (const provider of providers) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const armTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, provider.timeoutMs);
+    };
+    const startedAt = Date.now();
+    let text = "";
+    let firstTokenMs: number | undefined;
+    let stopped: StreamStopped | undefined;
+    const finish = (): StreamResult => {
+      attempts.push({ provider: provider.name, model: provider.model, durationMs: Date.now() - startedAt });
+      return {
+        text,
+        provider: provider.name,
+        model: provider.model,
+        attempts,
+        firstTokenMs: firstTokenMs ?? Date.now() - callStartedAt,
+      };
+    };
+
+    armTimer();
+    try {
+      await provider.stream(messages, resolvedParams, controller.signal, async (delta) => {
+        armTimer();
+        firstTokenMs ??= Date.now() - callStartedAt;
+        text += delta;
+        try {
+          await onDelta(delta);
+        } catch (error) {
+          if (error instanceof StreamStopped) stopped = error;
+          throw error;
+        }
+      });
+      return finish();
+    } catch (error) {
+      if (stopped) {
+        controller.abort();
+        stopped.result = finish();
+        throw stopped;
+      }
+      const llmError = toLLMError(error, provider, timedOut);
+      attempts.push({
+        provider: provider.name,
+        model: provider.model,
+        durationMs: Date.now() - startedAt,
+        error: llmError.code,
+      });
+      console.error(`LLM provider ${provider.name} failed while streaming:`, llmError.message);
+      if (text.length > 0) {
+        throw new LLMError(
+          `${provider.name} stopped mid-stream: ${llmError.message}`,
+          "stream_interrupted",
+          provider.name,
+          llmError.status,
+          attempts,
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new LLMError("All LLM providers failed", "all_providers_failed", undefined, undefined, attempts);
+}
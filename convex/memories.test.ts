@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { extractFacts } from "./memories";
+
+const nameIn = (text: string) => extractFacts(text).find(fact => fact.kind === "name")?.value;
+
+describe("extractFacts", () => {
+  it.each([
+    ["My name is Sam", "Sam"],
+    ["my name is mary jane and I live in Leeds", "Mary Jane"],
+    ["Call me Alex", "Alex"],
+    ["hi there, call me jo please", "Jo"],
+    ["You can call me Sam when you're ready", "Sam"],
+    ["I'm called Priya", "Priya"],
+  ])("picks the name out of %j", (text, name) => {
+    expect(nameIn(text)).toBe(name);
+  });
+
+  it.each([
+    "can you call me a taxi",
+    "Call me when it's done",
+    "call me back in 5 minutes",
+    "please call me later",
+    "call me tomorrow morning",
+    "My name is not important",
+  ])("finds no name in %j", text => {
+    expect(nameIn(text)).toBeUndefined();
+  });
+
+  it("still picks up other facts when there is no name", () => {
+    expect(extractFacts("call me back, I live in Leeds")).toEqual([{ kind: "location", value: "Leeds" }]);
+  });
+});
@@ -0,0 +1,326 @@
+import { query, mutation, internalQuery, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { toTerms } from "./intentClassifier";
+import { MemoryFact, MemoryKind, memoryFactValidator, memoryKindValidator } from "./validators";
+
+// Long-term memory of facts about a user: their name, where they live, the
+// music and other things they like, and notes they asked to be remembered.
+// Facts are picked up from what the user says ("my name is…", "I live in…",
+// "I like jazz"), the relevant ones are added to LLM prompts, and skills use
+// them as defaults, e.g. the weather for the city the user lives in. Users
+// can list, correct and forget memories by voice or from the memory panel.
+
+export type Memory = Doc<"userMemories">;
+
+// Kinds that hold one value; a new fact replaces the old one.
+const SINGLE_VALUED: MemoryKind[] = ["name", "location"];
+
+// A user keeps at most this many memories; new facts beyond it are dropped.
+const MAX_MEMORIES = 100;
+const MAX_VALUE_LENGTH = 200;
+
+// How many memories go into a prompt.
+export const MAX_PROMPT_MEMORIES = 8;
+
+export const GENRES = [
+  "rock", "pop", "jazz", "classical", "hip hop", "rap", "electronic", "blues", "country", "metal", "folk",
+  "r&b", "reggae", "soul", "funk", "indie", "punk", "techno", "house", "disco", "opera", "lo-fi", "ambient",
+];
+
+const NAME_PATTERNS = [
+  /\bmy name is\s+(.+)/i,
+  /\b(?:i'm called|i am called)\s+(.+)/i,
+  // Only at the start of a sentence or clause, so "can you call me a taxi"
+  // isn't taken as a name.
+  /(?:^|[.,!?;:]\s*)(?:(?:please|just|you can|you may)\s+)?call me\s+(.+)/i,
+];
+
+// Words that can follow "my name is" or "call me" but aren't a name, e.g.
+// "call me back in 5 minutes" or "my name is not important".
+const NOT_A_NAME = new RegExp(
+  "^(?:a|an|the|not|no|never|back|when|whenever|if|once|later|soon|now|again|anytime|sometime|today|tonight|tomorrow|" +
+  "morning|afternoon|evening|night|monday|tuesday|wednesday|thursday|friday|saturday|sunday|in|on|at|by|after|before|" +
+  "about|up|out|over|here|there|it|that|this|what|whatever|how|why|something|anything|nothing|someone|anyone|" +
+  "you|your|me|my|him|her|them|us|just|really|so|very|too|also|still|maybe|going|gonna|important)$",
+  "i",
+);
+
+const LOCATION_PATTERNS = [
+  /\b(?:i live in|i'm living in|i am living in|i'm based in|i am based in|i(?:'ve| have)? moved to)\s+(.+)/i,
+  /\bmy (?:home ?town|city) is\s+(.+)/i,
+];
+
+const LIKE_PATTERN = /\bi(?: (?:really |also |just |totally )?(?:like|love|enjoy|adore|listen to)|(?:'m| am) (?:really )?into)\s+(.+)/i;
+const FAVORITE_PATTERN = /\bmy favou?rite ([a-z]+(?: [a-z]+)?) (?:is|are)\s+(.+)/i;
+
+// Words that end what the user likes, e.g. "jazz but not on Mondays".
+const LIKE_BREAK = /\s+(?:but|so|because|though|although|when|which|who|now|these days|nowadays)\b.*$/i;
+
+// Words that end a name or place, e.g. "Sam and I live in Leeds".
+const CLAUSE_BREAK = /\s+(?:and|but|so|because|though|although|who|which|with|please|now|currently|these days|at the moment|nowadays|last|since|for|from|recently|ago)\b.*$/i;
+
+// What follows "I like" when it isn't a thing the user likes.
+const NOT_A_LIKE = /^(?:to|it|that|this|you|your|him|her|them|me|us|when|how|what|if|being|doing|the way|a lot|very|so|too)\b/i;
+
+function clause(text: string, breaks = CLAUSE_BREAK) {
+  return text.split(/[.,!?;:]/)[0].replace(breaks, "").trim();
+}
+
+// Keeps the user's capitalization, or title-cases text typed in lower case.
+function properCase(text: string) {
+  if (text !== text.toLowerCase()) return text;
+  return text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+// The leading one or two words of `text` that look like a name, if any.
+function nameFrom(text: string) {
+  const words: string[] = [];
+  for (const word of text.split(/\s+/).slice(0, 2)) {
+    if (!/^[\p{L}'-]+$/u.test(word) || NOT_A_NAME.test(word.replace(/'.*$/, ""))) break;
+    words.push(word);
+  }
+  return words.join(" ");
+}
+
+function genreOf(item: string) {
+  const lower = item.toLowerCase().replace(/\s+music$/, "").trim();
+  return GENRES.find(genre => genre === lower);
+}
+
+function likedItems(text: string): MemoryFact[] {
+  return clause(text, LIKE_BREAK)
+    .split(/\s+(?:and|or|&)\s+/i)
+    .map(item => item.replace(/^(?:some|listening to)\s+/i, "").trim())
+    .filter(item => item && !NOT_A_LIKE.test(item) && item.split(/\s+/).length <= 4)
+    .map(item => {
+      const genre = genreOf(item);
+      return genre ? { kind: "genre" as const, value: genre } : { kind: "like" as const, value: item.toLowerCase() };
+    });
+}
+
+// Picks up facts about the user from something they said.
+export function extractFacts(text: string): MemoryFact[] {
+  const normalized = text.replace(/’/g, "'");
+  const facts: MemoryFact[] = [];
+
+  for (const pattern of NAME_PATTERNS) {
+    const match = normalized.match(pattern);
+    const name = match && nameFrom(clause(match[1]));
+    if (name) {
+      facts.push({ kind: "name", value: properCase(name) });
+      break;
+    }
+  }
+
+  for (const pattern of LOCATION_PATTERNS) {
+    const match = normalized.match(pattern);
+    const place = match && clause(match[1]);
+    if (place && place.split(/\s+/).length <= 4) {
+      facts.push({ kind: "location", value: properCase(place) });
+      break;
+    }
+  }
+
+  const favorite = normalized.match(FAVORITE_PATTERN);
+  if (favorite) {
+    const [, topic, value] = favorite;
+    const item = clause(value, LIKE_BREAK);
+    const genre = genreOf(item);
+    if (genre) {
+      facts.push({ kind: "genre", value: genre });
+    } else if (item && item.split(/\s+/).length <= 4) {
+      facts.push({ kind: "like", value: `${item.toLowerCase()} (favorite ${topic.toLowerCase()})` });
+    }
+  }
+
+  const like = normalized.match(LIKE_PATTERN);
+  if (like) facts.push(...likedItems(like[1]));
+
+  return facts.filter((fact, i) => facts.findIndex(other => other.kind === fact.kind && sameValue(other.value, fact.value)) === i);
+}
+
+function sameValue(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// "my sister's birthday" → "your sister's birthday", for reading notes back.
+export function toSecondPerson(text: string) {
+  const swaps: Record<string, string> = {
+    i: "you", "i'm": "you're", "i've": "you've", "i'll": "you'll", "i'd": "you'd",
+    me: "you", my: "your", mine: "yours", myself: "yourself", am: "are",
+  };
+  return text.replace(/\b[a-z']+\b/gi, word => swaps[word.toLowerCase()] ?? word);
+}
+
+// How a memory is read back to the user.
+export function describeMemory(memory: Pick<Memory, "kind" | "value">) {
+  switch (memory.kind) {
+    case "name": return `your name is ${memory.value}`;
+    case "location": return `you live in ${memory.value}`;
+    case "genre": return `you like ${memory.value} music`;
+    case "like": return `you like ${memory.value}`;
+    case "note": return toSecondPerson(memory.value);
+  }
+}
+
+// How a memory is given to the LLM.
+function promptLine(memory: Memory) {
+  switch (memory.kind) {
+    case "name": return `The user's name is ${memory.value}.`;
+    case "location": return `The user lives in ${memory.value}.`;
+    case "genre": return `The user likes ${memory.value} music.`;
+    case "like": return `The user likes ${memory.value}.`;
+    case "note": return `The user asked you to remember: ${memory.value}`;
+  }
+}
+
+// The memories worth adding to the prompt for a message: the user's name and
+// location always, then those sharing a word with the message (or their
+// music taste, for music requests), then the most recent ones.
+export function memoriesForPrompt(memories: Memory[], text: string, category?: string): string[] {
+  const terms = new Set(toTerms(text).filter(term => term.length > 2));
+  const score = (memory: Memory) => {
+    if (SINGLE_VALUED.includes(memory.kind)) return 3;
+    if (memory.kind === "genre" && category === "music") return 2;
+    return toTerms(memory.value).some(term => terms.has(term)) ? 1 : 0;
+  };
+  return [...memories]
+    .sort((a, b) => score(b) - score(a) || b.updatedAt - a.updatedAt)
+    .slice(0, MAX_PROMPT_MEMORIES)
+    .map(promptLine);
+}
+
+async function loadMemories(ctx: QueryCtx, userId: Id<"users">) {
+  const memories = await ctx.db
+    .query("userMemories")
+    .withIndex("by_user_and_kind", q => q.eq("userId", userId))
+    .take(MAX_MEMORIES);
+  return memories.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+async function getOwnMemoryOrThrow(ctx: MutationCtx, memoryId: Id<"userMemories">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) throw new Error("User not authenticated");
+  const memory = await ctx.db.get(memoryId);
+  if (!memory || memory.userId !== userId) {
+    throw new Error("Memory not found");
+  }
+  return memory;
+}
+
+function normalizeValue(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error("A memory can't be empty");
+  }
+  return trimmed.slice(0, MAX_VALUE_LENGTH);
+}
+
+export const listForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await loadMemories(ctx, args.userId);
+  },
+});
+
+// Saves facts about a user and returns all of their memories. Facts already
+// remembered are refreshed rather than duplicated.
+export const remember = internalMutation({
+  args: {
+    userId: v.id("users"),
+    facts: v.array(memoryFactValidator),
+    source: v.union(v.literal("conversation"), v.literal("user")),
+    messageId: v.optional(v.id("messages")),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let count = (await loadMemories(ctx, args.userId)).length;
+    for (const fact of args.facts) {
+      const value = normalizeValue(fact.value);
+      const existing = await ctx.db
+        .query("userMemories")
+        .withIndex("by_user_and_kind", q => q.eq("userId", args.userId).eq("kind", fact.kind))
+        .collect();
+      const match = SINGLE_VALUED.includes(fact.kind)
+        ? existing[0]
+        : existing.find(memory => sameValue(memory.value, value));
+      if (match) {
+        await ctx.db.patch(match._id, { value, source: args.source, messageId: args.messageId, updatedAt: now });
+      } else if (count < MAX_MEMORIES) {
+        await ctx.db.insert("userMemories", {
+          userId: args.userId,
+          kind: fact.kind,
+          value,
+          source: args.source,
+          messageId: args.messageId,
+          createdAt: now,
+          updatedAt: now,
+        });
+        count++;
+      }
+    }
+    return await loadMemories(ctx, args.userId);
+  },
+});
+
+// Forgets a user's memories of a kind, those with a value, or all of them.
+// Returns what was forgotten.
+export const forgetForUser = internalMutation({
+  args: {
+    userId: v.id("users"),
+    kind: v.optional(memoryKindValidator),
+    value: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const memories = await loadMemories(ctx, args.userId);
+    const forgotten = memories.filter(memory =>
+      (!args.kind || memory.kind === args.kind) &&
+      (args.value === undefined || sameValue(memory.value, args.value)));
+    for (const memory of forgotten) {
+      await ctx.db.delete(memory._id);
+    }
+    return forgotten;
+  },
+});
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    return await loadMemories(ctx, userId);
+  },
+});
+
+// Corrects a memory.
+export const update = mutation({
+  args: {
+    memoryId: v.id("userMemories"),
+    value: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const memory = await getOwnMemoryOrThrow(ctx, args.memoryId);
+    await ctx.db.patch(memory._id, { value: normalizeValue(args.value), source: "user", updatedAt: Date.now() });
+  },
+});
+
+export const forget = mutation({
+  args: { memoryId: v.id("userMemories") },
+  handler: async (ctx, args) => {
+    const memory = await getOwnMemoryOrThrow(ctx, args.memoryId);
+    await ctx.db.delete(memory._id);
+  },
+});
+
+export const forgetAll = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("User not authenticated");
+    for (const memory of await loadMemories(ctx, userId)) {
+      await ctx.db.delete(memory._id);
+    }
+  },
+});
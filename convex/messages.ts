@@ -0,0 +1,93 @@
+import { query, internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+
+// Conversation messages, one document each. They are written by the turn
+// mutations in voiceAssistant.ts.
+
+const DELETE_BATCH_SIZE = 200;
+
+// A session's messages, newest first, for paginated history.
+export const list = query({
+  args: {
+    sessionId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const conversation = userId && await ctx.db
+      .query("conversations")
+      .withIndex("by_user_and_session", q => q.eq("userId", userId).eq("sessionId", args.sessionId))
+      .first();
+    if (!conversation) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_and_timestamp", q => q.eq("conversationId", conversation._id))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+// The last `limit` messages of a conversation, oldest first.
+export const listRecent = internalQuery({
+  args: {
+    conversationId: v.id("conversations"),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_and_timestamp", q => q.eq("conversationId", args.conversationId))
+      .order("desc")
+      .take(args.limit);
+    return messages.reverse();
+  },
+});
+
+// Deletes a conversation's messages, the feedback, metrics and sentiment
+// comparisons recorded for them, a batch at a time, rescheduling itself until
+// none are left. Memories learned from a message are kept without the link.
+export const deleteForConversation = internalMutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_and_timestamp", q => q.eq("conversationId", args.conversationId))
+      .take(DELETE_BATCH_SIZE);
+    const feedback = await ctx.db
+      .query("messageFeedback")
+      .withIndex("by_conversation", q => q.eq("conversationId", args.conversationId))
+      .take(DELETE_BATCH_SIZE);
+    for (const message of messages) {
+      const metrics = await ctx.db
+        .query("turnMetrics")
+        .withIndex("by_message", q => q.eq("messageId", message._id))
+        .collect();
+      const comparisons = await ctx.db
+        .query("sentimentComparisons")
+        .withIndex("by_message", q => q.eq("messageId", message._id))
+        .collect();
+      for (const doc of [...metrics, ...comparisons]) {
+        await ctx.db.delete(doc._id);
+      }
+      const memories = await ctx.db
+        .query("userMemories")
+        .withIndex("by_message", q => q.eq("messageId", message._id))
+        .collect();
+      for (const memory of memories) {
+        await ctx.db.patch(memory._id, { messageId: undefined });
+      }
+    }
+    for (const doc of [...messages, ...feedback]) {
+      await ctx.db.delete(doc._id);
+    }
+    if (messages.length === DELETE_BATCH_SIZE || feedback.length === DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.messages.deleteForConversation, args);
+    }
+  },
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { distribution, llmRates, percentile } from "./metrics";
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile(sorted, 90)).toBe(90);
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile(sorted, 100)).toBe(100);
+  });
+
+  it("handles short and empty lists", () => {
+    expect(percentile([42], 50)).toBe(42);
+    expect(percentile([42], 95)).toBe(42);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("distribution", () => {
+  it("sorts before taking percentiles", () => {
+    expect(distribution([300, 100, 200])).toEqual({ p50: 200, p95: 300 });
+  });
+
+  it("leaves the input alone", () => {
+    const values = [3, 1, 2];
+    distribution(values);
+    expect(values).toEqual([3, 1, 2]);
+  });
+
+  it("has no percentiles without turns", () => {
+    expect(distribution([])).toEqual({ p50: null, p95: null });
+  });
+});
+
+describe("llmRates", () => {
+  it("counts provider failures as fallbacks but not interrupted replies", () => {
+    expect(llmRates([
+      { source: "llm", providerFailover: false },
+      { source: "interrupted", providerFailover: false },
+      { source: "partial", providerFailover: true },
+      { source: "fallback", providerFailover: true },
+    ])).toEqual({ llmTurns: 4, providerFailoverRate: 0.5, fallbackRate: 0.5 });
+  });
+
+  it("leaves out turns answered without the LLM", () => {
+    expect(llmRates([
+      { source: "skill", providerFailover: false },
+      { source: "safety", providerFailover: false },
+      { source: "moderation", providerFailover: false },
+      { source: "interrupted", providerFailover: false },
+    ])).toEqual({ llmTurns: 1, providerFailoverRate: 0, fallbackRate: 0 });
+  });
+});
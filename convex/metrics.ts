@@ -0,0 +1,92 @@
+import { query, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { turnMetricsValidator } from "./validators";
+
+// Per-turn latency and provider metrics, recorded by processVoiceInput and
+// summarized for the dashboard.
+
+const WINDOWS = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Summaries are computed over at most this many of the newest turns.
+const MAX_SUMMARY_TURNS = 1000;
+
+const windowValidator = v.union(v.literal("hour"), v.literal("day"), v.literal("week"));
+
+// Nearest-rank percentile of an ascending list.
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function distribution(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p50: percentile(sorted, 50), p95: percentile(sorted, 95) };
+}
+
+function rate<T>(turns: T[], matches: (turn: T) => boolean) {
+  return turns.length > 0 ? turns.filter(matches).length / turns.length : 0;
+}
+
+type TurnSource = Pick<Doc<"turnMetrics">, "source" | "providerFailover">;
+
+// Rates over turns that needed the LLM, i.e. not answered by a skill, the
+// safety layer or a moderation refusal. Only provider failures count as
+// fallbacks; a reply the user talked over is not one.
+export function llmRates(turns: TurnSource[]) {
+  const llmTurns = turns.filter(turn => ["llm", "partial", "interrupted", "fallback"].includes(turn.source));
+  return {
+    llmTurns: llmTurns.length,
+    providerFailoverRate: rate(llmTurns, turn => turn.providerFailover),
+    fallbackRate: rate(llmTurns, turn => turn.source === "fallback" || turn.source === "partial"),
+  };
+}
+
+export const record = internalMutation({
+  args: {
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+    ...turnMetricsValidator.fields,
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("turnMetrics", { ...args, timestamp: Date.now() });
+  },
+});
+
+// Latency percentiles and fallback rates of the signed-in user's turns in the
+// last hour, day or week.
+export const summary = query({
+  args: { window: windowValidator },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const since = Date.now() - WINDOWS[args.window];
+    const turns = await ctx.db
+      .query("turnMetrics")
+      .withIndex("by_user_and_timestamp", q => q.eq("userId", userId).gte("timestamp", since))
+      .order("desc")
+      .take(MAX_SUMMARY_TURNS);
+
+    return {
+      turns: turns.length,
+      latency: {
+        total: distribution(turns.map(turn => turn.stages.total)),
+        timeToFirstAudio: distribution(turns.map(turn => turn.timeToFirstAudio)),
+        sentiment: distribution(turns.map(turn => turn.stages.sentiment)),
+        intent: distribution(turns.map(turn => turn.stages.intent)),
+        history: distribution(turns.map(turn => turn.stages.history)),
+        response: distribution(turns.map(turn => turn.stages.response)),
+        save: distribution(turns.map(turn => turn.stages.save)),
+      },
+      ...llmRates(turns),
+      skillRate: rate(turns, turn => turn.source === "skill"),
+    };
+  },
+});
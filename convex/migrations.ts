@@ -0,0 +1,58 @@
+import { internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { titleFromMessage } from "./sessions";
+
+// One-off data migrations. Run with `npx convex run migrations:<name>`; each
+// processes a page of documents and schedules itself for the next one.
+
+const CONVERSATIONS_PER_BATCH = 20;
+
+// Copies the messages embedded in each conversation into the messages table,
+// fills in the session list fields from them and removes the embedded array.
+export const moveMessagesToTable = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("conversations")
+      .paginate({ cursor: args.cursor ?? null, numItems: CONVERSATIONS_PER_BATCH });
+
+    let migrated = 0;
+    for (const conversation of page) {
+      const embedded = conversation.messages;
+      if (!embedded) continue;
+
+      // Only messages written to the table were counted so far, so every
+      // embedded one is added.
+      const moodCounts: Record<string, number> = { ...conversation.moodCounts };
+      for (const { id: _legacyId, ...message } of embedded) {
+        await ctx.db.insert("messages", {
+          ...message,
+          conversationId: conversation._id,
+          userId: conversation.userId,
+          // A reply cut short by a crash would otherwise stream forever.
+          streaming: undefined,
+        });
+        if (message.type === "user" && message.sentiment) {
+          moodCounts[message.sentiment.emotion] = (moodCounts[message.sentiment.emotion] ?? 0) + 1;
+        }
+      }
+
+      const firstUserMessage = embedded.find(message => message.type === "user");
+      await ctx.db.patch(conversation._id, {
+        messages: undefined,
+        messageCount: (conversation.messageCount ?? 0) + embedded.length,
+        lastMessageAt: conversation.lastMessageAt ?? embedded.at(-1)?.timestamp,
+        moodCounts,
+        title: conversation.title ?? (firstUserMessage ? titleFromMessage(firstUserMessage.content) : undefined),
+        titleSource: conversation.titleSource ?? "auto",
+      });
+      migrated++;
+    }
+
+    console.log(`Moved the messages of ${migrated} conversations`);
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.moveMessagesToTable, { cursor: continueCursor });
+    }
+  },
+});
@@ -0,0 +1,149 @@
+import { query, internalQuery, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+// Mood over time, from the sentiment stored on the user's own messages.
+// Messages are grouped into local days or weeks (starting Monday) and each
+// group reports the mean valence and arousal and how often each emotion was
+// detected.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Summaries cover at most this many of the newest messages in the range.
+const MAX_MESSAGES = 2000;
+
+// Change in mean valence between the first and second half of a range that
+// counts as the mood improving or getting worse.
+const TREND_THRESHOLD = 0.15;
+
+export const moodRangeValidator = v.union(v.literal("week"), v.literal("month"), v.literal("quarter"));
+export type MoodRange = "week" | "month" | "quarter";
+
+const RANGES: Record<MoodRange, { days: number; bucket: "day" | "week" }> = {
+  week: { days: 7, bucket: "day" },
+  month: { days: 30, bucket: "day" },
+  quarter: { days: 91, bucket: "week" },
+};
+
+export type MoodBucket = {
+  // Start of the local day or week, as a timestamp.
+  start: number;
+  messages: number;
+  valence: number | null;
+  arousal: number | null;
+  emotions: Record<string, number>;
+};
+
+export type MoodSummary = {
+  range: MoodRange;
+  bucket: "day" | "week";
+  since: number;
+  messages: number;
+  valence: number | null;
+  arousal: number | null;
+  emotions: Record<string, number>;
+  trend: "improving" | "declining" | "steady" | null;
+  buckets: MoodBucket[];
+};
+
+// Start of the local day containing `timestamp`, for a client's
+// Date#getTimezoneOffset.
+function startOfDay(timestamp: number, timezoneOffset: number) {
+  const offsetMs = timezoneOffset * 60000;
+  return Math.floor((timestamp - offsetMs) / DAY_MS) * DAY_MS + offsetMs;
+}
+
+function startOfWeek(timestamp: number, timezoneOffset: number) {
+  const day = startOfDay(timestamp, timezoneOffset);
+  // Day 0 of the epoch was a Thursday; count days since Monday.
+  const weekday = (Math.round((day - timezoneOffset * 60000) / DAY_MS) + 3) % 7;
+  return day - weekday * DAY_MS;
+}
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function aggregate(messages: Array<Pick<Doc<"messages">, "sentiment">>) {
+  const emotions: Record<string, number> = {};
+  const valences: number[] = [];
+  const arousals: number[] = [];
+  for (const message of messages) {
+    if (!message.sentiment) continue;
+    emotions[message.sentiment.emotion] = (emotions[message.sentiment.emotion] ?? 0) + 1;
+    valences.push(message.sentiment.valence);
+    arousals.push(message.sentiment.arousal);
+  }
+  return { messages: valences.length, valence: mean(valences), arousal: mean(arousals), emotions };
+}
+
+export function summarizeMood(
+  messages: Array<Pick<Doc<"messages">, "timestamp" | "sentiment">>,
+  range: MoodRange,
+  now: number,
+  timezoneOffset = 0,
+): MoodSummary {
+  const { days, bucket } = RANGES[range];
+  const bucketStart = bucket === "day" ? startOfDay : startOfWeek;
+  const since = startOfDay(now, timezoneOffset) - (days - 1) * DAY_MS;
+  const inRange = messages.filter(message => message.timestamp >= since && message.sentiment);
+
+  // Every bucket in the range, so gaps show as days without data.
+  const buckets: MoodBucket[] = [];
+  for (let start = bucketStart(since, timezoneOffset); start <= now; start += (bucket === "day" ? 1 : 7) * DAY_MS) {
+    const end = start + (bucket === "day" ? 1 : 7) * DAY_MS;
+    buckets.push({ start, ...aggregate(inRange.filter(message => message.timestamp >= start && message.timestamp < end)) });
+  }
+
+  const middle = since + (now - since) / 2;
+  const firstHalf = aggregate(inRange.filter(message => message.timestamp < middle)).valence;
+  const secondHalf = aggregate(inRange.filter(message => message.timestamp >= middle)).valence;
+  let trend: MoodSummary["trend"] = null;
+  if (firstHalf !== null && secondHalf !== null) {
+    const change = secondHalf - firstHalf;
+    trend = change >= TREND_THRESHOLD ? "improving" : change <= -TREND_THRESHOLD ? "declining" : "steady";
+  }
+
+  return { range, bucket, since, ...aggregate(inRange), trend, buckets };
+}
+
+async function loadUserMessages(ctx: QueryCtx, userId: Id<"users">, since: number) {
+  return await ctx.db
+    .query("messages")
+    .withIndex("by_user_and_type_and_timestamp", q =>
+      q.eq("userId", userId).eq("type", "user").gte("timestamp", since))
+    .order("desc")
+    .take(MAX_MESSAGES);
+}
+
+async function moodFor(ctx: QueryCtx, userId: Id<"users">, range: MoodRange, timezoneOffset?: number) {
+  const now = Date.now();
+  const since = now - (RANGES[range].days + 1) * DAY_MS;
+  const messages = await loadUserMessages(ctx, userId, since);
+  return summarizeMood(messages, range, now, timezoneOffset);
+}
+
+// The signed-in user's mood timeline.
+export const timeline = query({
+  args: {
+    range: moodRangeValidator,
+    timezoneOffset: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    return await moodFor(ctx, userId, args.range, args.timezoneOffset);
+  },
+});
+
+export const summaryForUser = internalQuery({
+  args: {
+    userId: v.id("users"),
+    range: moodRangeValidator,
+    timezoneOffset: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<MoodSummary> => {
+    return await moodFor(ctx, args.userId, args.range, args.timezoneOffset);
+  },
+});
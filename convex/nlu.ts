@@ -0,0 +1,24 @@
+// The intent detection pipeline as a pure function: rank the intents, then
+// extract entities using the winning intent's definitions. detectIntent runs
+// it against the intents in the database and the offline evaluation against
+// a fixed set.
+
+import { IntentDefinition, IntentRanking, rankIntents } from "./intentClassifier";
+import { EntityDefinition, ExtractionOptions, extractEntities } from "./entityExtractor";
+import type { Intent } from "./validators";
+
+export type IntentDetection = Intent & Pick<IntentRanking, "alternatives" | "explanation">;
+
+export function detectIntentIn(
+  text: string,
+  intents: Array<IntentDefinition & { entities: EntityDefinition[] }>,
+  options: ExtractionOptions,
+): IntentDetection {
+  const ranking = rankIntents(text, intents);
+
+  // Extract entities for the winning intent
+  const matched = intents.find(intent => intent.category === ranking.category);
+  const entities = extractEntities(text, matched?.entities ?? [], options);
+
+  return { ...ranking, entities };
+}
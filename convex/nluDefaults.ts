@@ -0,0 +1,134 @@
+// Intents and the sentiment model that a fresh deployment is seeded with.
+// Also the configuration the offline NLU evaluation runs against.
+
+import type { SentimentModel } from "./sentimentAnalyzer";
+
+export const DEFAULT_INTENTS = [
+  {
+    category: "greeting",
+    patterns: ["hello", "hi", "hey", "good morning", "good afternoon", "good evening"],
+    responses: [
+      "Hello! How can I help you today?",
+      "Hi there! What can I do for you?",
+      "Hey! I'm here to assist you.",
+    ],
+    entities: [],
+    requiredConfidence: 0.7,
+  },
+  {
+    category: "weather",
+    patterns: ["weather", "temperature", "forecast", "rain", "sunny", "cloudy"],
+    responses: [
+      "I'd be happy to help with weather information. What location are you interested in?",
+      "Let me check the weather for you. Which city?",
+    ],
+    entities: [
+      {
+        type: "location",
+        patterns: ["in", "at", "for", "city", "town"],
+      },
+    ],
+    requiredConfidence: 0.8,
+  },
+  {
+    category: "music",
+    patterns: ["play music", "music", "play some", "play something", "put on some", "song", "artist", "album", "playlist", "tune"],
+    responses: [
+      "I'd love to help with music! What would you like to listen to?",
+      "Great choice! What genre or artist are you in the mood for?",
+    ],
+    entities: [
+      {
+        type: "genre",
+        patterns: ["rock", "pop", "jazz", "classical", "hip hop", "electronic"],
+      },
+      {
+        type: "artist",
+        patterns: ["by", "from", "artist"],
+      },
+    ],
+    requiredConfidence: 0.75,
+  },
+  {
+    category: "reminder",
+    patterns: ["remind me", "reminder", "don't forget", "schedule", "appointment", "snooze"],
+    responses: [
+      "I'll help you set a reminder. What should I remind you about?",
+      "Sure! When would you like to be reminded?",
+    ],
+    entities: [
+      {
+        type: "time",
+        patterns: ["at", "in", "tomorrow", "today", "next week", "minutes", "hours"],
+      },
+    ],
+    requiredConfidence: 0.8,
+  },
+  {
+    category: "emotion_support",
+    patterns: ["sad", "depressed", "anxious", "worried", "stressed", "upset"],
+    responses: [
+      "I'm sorry you're feeling this way. Would you like to talk about it?",
+      "I understand this might be difficult. I'm here to listen.",
+      "It's okay to feel this way sometimes. How can I support you?",
+    ],
+    entities: [],
+    requiredConfidence: 0.6,
+  },
+  {
+    category: "mood_check",
+    patterns: ["how have i been feeling", "how have i been", "my mood", "mood this week", "been feeling lately", "how was my week", "my feelings", "mood trend"],
+    responses: [
+      "I can tell you how you've been feeling lately, based on our conversations.",
+    ],
+    entities: [],
+    requiredConfidence: 0.6,
+  },
+  {
+    category: "memory",
+    patterns: ["what do you know about me", "what do you remember", "remember that", "remember my", "remember i", "forget my", "forget that", "forget where", "forget everything", "forget about me"],
+    responses: [
+      "I can remember things about you, like your name or where you live. Ask me what I know about you at any time.",
+    ],
+    entities: [],
+    requiredConfidence: 0.6,
+  },
+  {
+    category: "preferences",
+    patterns: ["be more brief", "shorter answers", "keep it short", "more detail", "longer answers", "be more professional", "be more casual", "be casual", "be professional", "be more empathetic", "change your tone"],
+    responses: [
+      "You can ask me to be more brief or more detailed, or to sound professional, casual or empathetic.",
+    ],
+    entities: [],
+    requiredConfidence: 0.6,
+  },
+  {
+    category: "question",
+    patterns: ["what", "how", "when", "where", "why", "who", "tell me", "explain", "define"],
+    responses: [
+      "Let me find that information for you.",
+      "I'll look that up right away.",
+    ],
+    entities: [],
+    requiredConfidence: 0.5,
+  },
+];
+
+export const DEFAULT_SENTIMENT_MODEL: SentimentModel = {
+  emotionKeywords: {
+    happy: ["happy", "joy", "excited", "great", "awesome", "wonderful", "fantastic", "amazing", "love", "perfect"],
+    sad: ["sad", "depressed", "down", "unhappy", "miserable", "terrible", "awful", "disappointed", "hurt", "cry"],
+    angry: ["angry", "mad", "furious", "annoyed", "irritated", "frustrated", "hate", "disgusted", "outraged"],
+    fear: ["scared", "afraid", "terrified", "worried", "anxious", "nervous", "panic", "frightened"],
+    surprise: ["surprised", "shocked", "amazed", "astonished", "wow", "incredible", "unbelievable"],
+    neutral: ["okay", "fine", "normal", "regular", "standard", "typical", "usual"],
+  },
+  intensityModifiers: [
+    { word: "very", multiplier: 1.5 },
+    { word: "extremely", multiplier: 2.0 },
+    { word: "really", multiplier: 1.3 },
+    { word: "quite", multiplier: 1.2 },
+    { word: "somewhat", multiplier: 0.8 },
+    { word: "slightly", multiplier: 0.6 },
+  ],
+};
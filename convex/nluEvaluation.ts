@@ -0,0 +1,371 @@
+// Offline evaluation of the NLU pipeline against labelled utterances.
+//
+// Runs the same scoring as detectIntent and analyzeSentiment (detectIntentIn
+// and analyzeSentimentText) over a dataset, reports precision, recall and F1
+// per intent, emotion and entity type, and compares the result with a saved
+// baseline. Everything here is a pure function; scripts/evaluateNlu.ts reads
+// the files and prints the report.
+//
+// Datasets are JSONL, one utterance per line. Only `text` is required; each
+// expectation that is present is scored:
+//
+//   {"text": "what's the weather in paris", "intent": "weather", "emotion": "neutral",
+//    "entities": [{"type": "location", "value": "paris"}]}
+//
+// Listing `entities` (even as []) means the list is complete, so any other
+// entity found in the utterance counts as a false positive.
+
+import { detectIntentIn } from "./nlu";
+import type { IntentDefinition } from "./intentClassifier";
+import type { EntityDefinition } from "./entityExtractor";
+import { analyzeSentimentText, SentimentModel } from "./sentimentAnalyzer";
+
+export type LabelledUtterance = {
+  text: string;
+  intent?: string;
+  emotion?: string;
+  entities?: Array<{ type: string; value: string }>;
+};
+
+export type NluConfig = {
+  intents: Array<IntentDefinition & { entities: EntityDefinition[] }>;
+  sentimentModel: SentimentModel;
+};
+
+export type ClassMetrics = {
+  precision: number;
+  recall: number;
+  f1: number;
+  // Expected occurrences of the class.
+  support: number;
+};
+
+export type ClassReport = {
+  evaluated: number;
+  // Share of evaluated examples that were entirely right.
+  accuracy: number;
+  macroF1: number;
+  classes: Record<string, ClassMetrics>;
+};
+
+export type UtteranceResult = {
+  text: string;
+  expected: LabelledUtterance;
+  predicted: {
+    intent: string;
+    emotion: string;
+    entities: Array<{ type: string; value: string }>;
+  };
+  intentCorrect?: boolean;
+  emotionCorrect?: boolean;
+  entitiesCorrect?: boolean;
+};
+
+export type EvaluationReport = {
+  examples: number;
+  intent: ClassReport;
+  emotion: ClassReport;
+  entities: ClassReport;
+  results: UtteranceResult[];
+};
+
+// What is kept of a report to compare later runs against.
+export type Baseline = {
+  metrics: Record<string, number>;
+  // Texts of the examples each task got right.
+  passing: { intent: string[]; emotion: string[]; entities: string[] };
+};
+
+export type Comparison = {
+  regressions: Array<{ metric: string; baseline: number; current: number }>;
+  improvements: Array<{ metric: string; baseline: number; current: number }>;
+  // Examples the baseline got right that now fail, per task.
+  newFailures: { intent: string[]; emotion: string[]; entities: string[] };
+};
+
+// Times in the dataset ("tomorrow at 5pm") resolve against this fixed moment,
+// a Monday at 09:00 UTC, so results don't depend on when the evaluation runs.
+export const EVALUATION_NOW = Date.UTC(2025, 0, 6, 9, 0);
+
+// Metrics may drop by this much before counting as a regression.
+export const DEFAULT_TOLERANCE = 0.005;
+
+type Counts = Record<string, { tp: number; fp: number; fn: number }>;
+
+export function parseDataset(jsonl: string): LabelledUtterance[] {
+  const examples: LabelledUtterance[] = [];
+  jsonl.split("\n").forEach((line, index) => {
+    if (!line.trim() || line.trimStart().startsWith("//")) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: invalid JSON`);
+    }
+    const example = parsed as LabelledUtterance;
+    if (typeof example?.text !== "string" || !example.text.trim()) {
+      throw new Error(`Line ${index + 1}: "text" must be a non-empty string`);
+    }
+    if (example.intent !== undefined && typeof example.intent !== "string") {
+      throw new Error(`Line ${index + 1}: "intent" must be a string`);
+    }
+    if (example.emotion !== undefined && typeof example.emotion !== "string") {
+      throw new Error(`Line ${index + 1}: "emotion" must be a string`);
+    }
+    if (example.entities !== undefined && (
+      !Array.isArray(example.entities) ||
+      example.entities.some(entity => typeof entity?.type !== "string" || typeof entity?.value !== "string")
+    )) {
+      throw new Error(`Line ${index + 1}: "entities" must be a list of {type, value}`);
+    }
+    examples.push(example);
+  });
+  return examples;
+}
+
+function count(counts: Counts, label: string, field: "tp" | "fp" | "fn") {
+  counts[label] ??= { tp: 0, fp: 0, fn: 0 };
+  counts[label][field]++;
+}
+
+function safeDivide(numerator: number, denominator: number) {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function toClassReport(counts: Counts, evaluated: number, correct: number): ClassReport {
+  const classes: Record<string, ClassMetrics> = {};
+  for (const [label, { tp, fp, fn }] of Object.entries(counts).sort(([a], [b]) => a.localeCompare(b))) {
+    const precision = safeDivide(tp, tp + fp);
+    const recall = safeDivide(tp, tp + fn);
+    classes[label] = {
+      precision,
+      recall,
+      f1: safeDivide(2 * precision * recall, precision + recall),
+      support: tp + fn,
+    };
+  }
+  const scored = Object.values(classes).filter(metrics => metrics.support > 0);
+  return {
+    evaluated,
+    accuracy: safeDivide(correct, evaluated),
+    macroF1: safeDivide(scored.reduce((total, metrics) => total + metrics.f1, 0), scored.length),
+    classes,
+  };
+}
+
+// Single-label scoring: a miss is a false negative for the expected class and
+// a false positive for the predicted one.
+function scoreLabel(counts: Counts, expected: string, predicted: string) {
+  if (expected === predicted) {
+    count(counts, expected, "tp");
+    return true;
+  }
+  count(counts, expected, "fn");
+  count(counts, predicted, "fp");
+  return false;
+}
+
+const entityKey = (entity: { type: string; value: string }) =>
+  `${entity.type}\u0000${entity.value.trim().toLowerCase()}`;
+
+function scoreEntities(
+  counts: Counts,
+  expected: Array<{ type: string; value: string }>,
+  predicted: Array<{ type: string; value: string }>,
+) {
+  const remaining = new Map<string, number>();
+  for (const entity of expected) {
+    remaining.set(entityKey(entity), (remaining.get(entityKey(entity)) ?? 0) + 1);
+  }
+  let allCorrect = predicted.length === expected.length;
+  for (const entity of predicted) {
+    const left = remaining.get(entityKey(entity)) ?? 0;
+    if (left > 0) {
+      remaining.set(entityKey(entity), left - 1);
+      count(counts, entity.type, "tp");
+    } else {
+      count(counts, entity.type, "fp");
+      allCorrect = false;
+    }
+  }
+  for (const [key, left] of remaining) {
+    for (let i = 0; i < left; i++) count(counts, key.split("\u0000")[0], "fn");
+    if (left > 0) allCorrect = false;
+  }
+  return allCorrect;
+}
+
+export function evaluate(
+  examples: LabelledUtterance[],
+  config: NluConfig,
+  options: { now?: number; timezoneOffsetMinutes?: number } = {},
+): EvaluationReport {
+  const intentCounts: Counts = {};
+  const emotionCounts: Counts = {};
+  const entityCounts: Counts = {};
+  const tally = {
+    intent: { evaluated: 0, correct: 0 },
+    emotion: { evaluated: 0, correct: 0 },
+    entities: { evaluated: 0, correct: 0 },
+  };
+
+  const results = examples.map((example): UtteranceResult => {
+    const detection = detectIntentIn(example.text, config.intents, {
+      now: options.now ?? EVALUATION_NOW,
+      timezoneOffsetMinutes: options.timezoneOffsetMinutes ?? 0,
+    });
+    const sentiment = analyzeSentimentText(example.text, config.sentimentModel);
+    const predictedEntities = detection.entities.map(entity => ({ type: entity.type, value: entity.value }));
+    const result: UtteranceResult = {
+      text: example.text,
+      expected: example,
+      predicted: { intent: detection.category, emotion: sentiment.emotion, entities: predictedEntities },
+    };
+
+    if (example.intent !== undefined) {
+      result.intentCorrect = scoreLabel(intentCounts, example.intent, detection.category);
+      tally.intent.evaluated++;
+      if (result.intentCorrect) tally.intent.correct++;
+    }
+    if (example.emotion !== undefined) {
+      result.emotionCorrect = scoreLabel(emotionCounts, example.emotion, sentiment.emotion);
+      tally.emotion.evaluated++;
+      if (result.emotionCorrect) tally.emotion.correct++;
+    }
+    if (example.entities !== undefined) {
+      result.entitiesCorrect = scoreEntities(entityCounts, example.entities, predictedEntities);
+      tally.entities.evaluated++;
+      if (result.entitiesCorrect) tally.entities.correct++;
+    }
+    return result;
+  });
+
+  return {
+    examples: examples.length,
+    intent: toClassReport(intentCounts, tally.intent.evaluated, tally.intent.correct),
+    emotion: toClassReport(emotionCounts, tally.emotion.evaluated, tally.emotion.correct),
+    entities: toClassReport(entityCounts, tally.entities.evaluated, tally.entities.correct),
+    results,
+  };
+}
+
+const TASKS = ["intent", "emotion", "entities"] as const;
+const CORRECT_FIELD = { intent: "intentCorrect", emotion: "emotionCorrect", entities: "entitiesCorrect" } as const;
+
+export function toBaseline(report: EvaluationReport): Baseline {
+  const metrics: Record<string, number> = {};
+  const passing: Baseline["passing"] = { intent: [], emotion: [], entities: [] };
+  for (const task of TASKS) {
+    const taskReport = report[task];
+    if (taskReport.evaluated === 0) continue;
+    metrics[`${task}.accuracy`] = taskReport.accuracy;
+    metrics[`${task}.macroF1`] = taskReport.macroF1;
+    for (const [label, classMetrics] of Object.entries(taskReport.classes)) {
+      if (classMetrics.support > 0) metrics[`${task}.f1.${label}`] = classMetrics.f1;
+    }
+    passing[task] = report.results.filter(result => result[CORRECT_FIELD[task]] === true).map(result => result.text);
+  }
+  return { metrics, passing };
+}
+
+export function compareWithBaseline(
+  report: EvaluationReport,
+  baseline: Baseline,
+  tolerance = DEFAULT_TOLERANCE,
+): Comparison {
+  const current = toBaseline(report);
+  const comparison: Comparison = {
+    regressions: [],
+    improvements: [],
+    newFailures: { intent: [], emotion: [], entities: [] },
+  };
+
+  for (const [metric, before] of Object.entries(baseline.metrics)) {
+    // A class that is no longer in the dataset can't be compared.
+    if (!(metric in current.metrics)) continue;
+    const after = current.metrics[metric];
+    if (after < before - tolerance) comparison.regressions.push({ metric, baseline: before, current: after });
+    else if (after > before + tolerance) comparison.improvements.push({ metric, baseline: before, current: after });
+  }
+
+  for (const task of TASKS) {
+    const nowPassing = new Set(current.passing[task]);
+    const evaluatedTexts = new Set(
+      report.results.filter(result => result[CORRECT_FIELD[task]] !== undefined).map(result => result.text)
+    );
+    comparison.newFailures[task] = baseline.passing[task].filter(text => evaluatedTexts.has(text) && !nowPassing.has(text));
+  }
+  return comparison;
+}
+
+export function hasRegressions(comparison: Comparison) {
+  return comparison.regressions.length > 0 || TASKS.some(task => comparison.newFailures[task].length > 0);
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+function formatClassReport(title: string, report: ClassReport) {
+  if (report.evaluated === 0) return [`${title}: no labelled examples`];
+  const width = Math.max(10, ...Object.keys(report.classes).map(label => label.length));
+  const lines = [
+    `${title}: accuracy ${percent(report.accuracy).trim()}, macro F1 ${percent(report.macroF1).trim()} over ${report.evaluated} examples`,
+    `  ${"class".padEnd(width)}  precision  recall      F1  support`,
+  ];
+  for (const [label, metrics] of Object.entries(report.classes)) {
+    lines.push(
+      `  ${label.padEnd(width)}    ${percent(metrics.precision)} ${percent(metrics.recall)} ${percent(metrics.f1)}  ${String(metrics.support).padStart(7)}`
+    );
+  }
+  return lines;
+}
+
+export function formatReport(report: EvaluationReport, comparison?: Comparison, verbose = false) {
+  const lines = [
+    `Evaluated ${report.examples} utterances`,
+    "",
+    ...formatClassReport("Intent", report.intent),
+    "",
+    ...formatClassReport("Emotion", report.emotion),
+    "",
+    ...formatClassReport("Entities", report.entities),
+  ];
+
+  if (verbose) {
+    const failures = report.results.filter(result =>
+      result.intentCorrect === false || result.emotionCorrect === false || result.entitiesCorrect === false
+    );
+    if (failures.length > 0) {
+      lines.push("", "Misclassified:");
+      for (const result of failures) {
+        const problems: string[] = [];
+        if (result.intentCorrect === false) problems.push(`intent ${result.expected.intent} → ${result.predicted.intent}`);
+        if (result.emotionCorrect === false) problems.push(`emotion ${result.expected.emotion} → ${result.predicted.emotion}`);
+        if (result.entitiesCorrect === false) {
+          const found = result.predicted.entities.map(entity => `${entity.type}=${entity.value}`).join(", ") || "none";
+          problems.push(`entities: found ${found}`);
+        }
+        lines.push(`  "${result.text}": ${problems.join("; ")}`);
+      }
+    }
+  }
+
+  if (comparison) {
+    lines.push("");
+    if (comparison.regressions.length === 0 && comparison.improvements.length === 0) {
+      lines.push("No metric changed against the baseline.");
+    }
+    for (const change of comparison.regressions) {
+      lines.push(`REGRESSION ${change.metric}: ${percent(change.baseline).trim()} → ${percent(change.current).trim()}`);
+    }
+    for (const change of comparison.improvements) {
+      lines.push(`improved   ${change.metric}: ${percent(change.baseline).trim()} → ${percent(change.current).trim()}`);
+    }
+    for (const task of TASKS) {
+      for (const text of comparison.newFailures[task]) {
+        lines.push(`REGRESSION ${task} now wrong for "${text}"`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
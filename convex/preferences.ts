@@ -0,0 +1,97 @@
+import { query, mutation, internalMutation, internalQuery, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { ResponsePreferences, preferencesValidator } from "./validators";
+
+// Response preferences. Each user has defaults that new conversations start
+// from; a conversation's own copy can then be changed by voice ("be more
+// brief") without touching the defaults.
+
+export const DEFAULT_PREFERENCES: ResponsePreferences = {
+  responseStyle: "empathetic",
+  verbosity: "detailed",
+};
+
+export async function loadUserPreferences(ctx: QueryCtx, userId: Id<"users">): Promise<ResponsePreferences> {
+  const saved = await ctx.db
+    .query("userPreferences")
+    .withIndex("by_user", q => q.eq("userId", userId))
+    .first();
+  return saved ? { responseStyle: saved.responseStyle, verbosity: saved.verbosity } : DEFAULT_PREFERENCES;
+}
+
+async function getSessionConversation(ctx: QueryCtx, userId: Id<"users">, sessionId: string) {
+  return await ctx.db
+    .query("conversations")
+    .withIndex("by_user_and_session", q => q.eq("userId", userId).eq("sessionId", sessionId))
+    .first();
+}
+
+// The user's defaults and the preferences in effect for a session.
+export const get = query({
+  args: { sessionId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const defaults = await loadUserPreferences(ctx, userId);
+    const conversation = args.sessionId ? await getSessionConversation(ctx, userId, args.sessionId) : null;
+    return {
+      defaults,
+      session: conversation?.context.preferences ?? defaults,
+    };
+  },
+});
+
+// Saves the user's defaults and applies them to the current session.
+export const save = mutation({
+  args: {
+    ...preferencesValidator.fields,
+    sessionId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const preferences = { responseStyle: args.responseStyle, verbosity: args.verbosity };
+    const existing = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...preferences, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("userPreferences", { userId, ...preferences, updatedAt: Date.now() });
+    }
+
+    const conversation = args.sessionId ? await getSessionConversation(ctx, userId, args.sessionId) : null;
+    if (conversation) {
+      await ctx.db.patch(conversation._id, { context: { ...conversation.context, preferences } });
+    }
+  },
+});
+
+export const getForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await loadUserPreferences(ctx, args.userId);
+  },
+});
+
+// Changes the preferences of one conversation only.
+export const setForConversation = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    preferences: preferencesValidator,
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return;
+    await ctx.db.patch(conversation._id, {
+      context: { ...conversation.context, preferences: args.preferences },
+    });
+  },
+});
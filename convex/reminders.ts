@@ -0,0 +1,168 @@
+import { query, mutation, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// Reminders are fired by Convex's scheduler at their due time. The client
+// subscribes to listDue to show a notification and speak the reminder, then
+// acknowledges it.
+
+export const DEFAULT_SNOOZE_MS = 10 * 60 * 1000;
+
+async function scheduleReminder(ctx: MutationCtx, reminderId: Id<"reminders">, dueAt: number) {
+  const scheduledFunctionId = await ctx.scheduler.runAt(dueAt, internal.reminders.fire, { reminderId });
+  await ctx.db.patch(reminderId, { dueAt, status: "scheduled", scheduledFunctionId });
+}
+
+async function getOwnedReminder(ctx: MutationCtx, userId: Id<"users">, reminderId: Id<"reminders">) {
+  const reminder = await ctx.db.get(reminderId);
+  if (!reminder || reminder.userId !== userId) {
+    throw new Error("Reminder not found");
+  }
+  return reminder;
+}
+
+async function cancelReminder(ctx: MutationCtx, reminder: Doc<"reminders">) {
+  if (reminder.status === "scheduled" && reminder.scheduledFunctionId) {
+    await ctx.scheduler.cancel(reminder.scheduledFunctionId);
+  }
+  await ctx.db.patch(reminder._id, { status: "cancelled" });
+}
+
+async function snoozeReminder(ctx: MutationCtx, reminder: Doc<"reminders">, dueAt: number) {
+  if (reminder.status === "scheduled" && reminder.scheduledFunctionId) {
+    await ctx.scheduler.cancel(reminder.scheduledFunctionId);
+  }
+  await ctx.db.patch(reminder._id, {
+    snoozeCount: reminder.snoozeCount + 1,
+    firedAt: undefined,
+    acknowledgedAt: undefined,
+  });
+  await scheduleReminder(ctx, reminder._id, dueAt);
+}
+
+export const create = internalMutation({
+  args: {
+    userId: v.id("users"),
+    sessionId: v.string(),
+    subject: v.string(),
+    dueAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const reminderId = await ctx.db.insert("reminders", {
+      ...args,
+      status: "scheduled",
+      snoozeCount: 0,
+    });
+    await scheduleReminder(ctx, reminderId, args.dueAt);
+    return reminderId;
+  },
+});
+
+export const fire = internalMutation({
+  args: { reminderId: v.id("reminders") },
+  handler: async (ctx, args) => {
+    const reminder = await ctx.db.get(args.reminderId);
+    if (!reminder || reminder.status !== "scheduled") return;
+    await ctx.db.patch(reminder._id, {
+      status: "fired",
+      firedAt: Date.now(),
+      scheduledFunctionId: undefined,
+    });
+  },
+});
+
+export const listForUser = internalQuery({
+  args: {
+    userId: v.id("users"),
+    status: v.union(v.literal("scheduled"), v.literal("fired")),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("reminders")
+      .withIndex("by_user_and_status_and_due", q => q.eq("userId", args.userId).eq("status", args.status))
+      .collect();
+  },
+});
+
+export const cancelForUser = internalMutation({
+  args: {
+    userId: v.id("users"),
+    reminderId: v.id("reminders"),
+  },
+  handler: async (ctx, args) => {
+    await cancelReminder(ctx, await getOwnedReminder(ctx, args.userId, args.reminderId));
+  },
+});
+
+export const snoozeForUser = internalMutation({
+  args: {
+    userId: v.id("users"),
+    reminderId: v.id("reminders"),
+    dueAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await snoozeReminder(ctx, await getOwnedReminder(ctx, args.userId, args.reminderId), args.dueAt);
+  },
+});
+
+// Reminders still to come, soonest first.
+export const listUpcoming = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    return await ctx.db
+      .query("reminders")
+      .withIndex("by_user_and_status_and_due", q => q.eq("userId", userId).eq("status", "scheduled"))
+      .collect();
+  },
+});
+
+// Fired reminders the client has not notified the user about yet.
+export const listDue = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const fired = await ctx.db
+      .query("reminders")
+      .withIndex("by_user_and_status_and_due", q => q.eq("userId", userId).eq("status", "fired"))
+      .collect();
+    return fired.filter(reminder => reminder.acknowledgedAt === undefined);
+  },
+});
+
+export const acknowledge = mutation({
+  args: { reminderId: v.id("reminders") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("User not authenticated");
+    const reminder = await getOwnedReminder(ctx, userId, args.reminderId);
+    await ctx.db.patch(reminder._id, { acknowledgedAt: Date.now() });
+  },
+});
+
+export const cancel = mutation({
+  args: { reminderId: v.id("reminders") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("User not authenticated");
+    await cancelReminder(ctx, await getOwnedReminder(ctx, userId, args.reminderId));
+  },
+});
+
+export const snooze = mutation({
+  args: {
+    reminderId: v.id("reminders"),
+    minutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("User not authenticated");
+    const reminder = await getOwnedReminder(ctx, userId, args.reminderId);
+    const delay = args.minutes !== undefined ? args.minutes * 60 * 1000 : DEFAULT_SNOOZE_MS;
+    await snoozeReminder(ctx, reminder, Date.now() + delay);
+  },
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { RoutingInput, rerouteWithoutSkill, routeResponse } from "./responseRouter";
+
+const calm = { emotion: "neutral", valence: 0 };
+
+function input(category: string, confidence: number, alternatives: Array<[string, number]> = [], sentiment = calm): RoutingInput {
+  return {
+    intent: {
+      category,
+      confidence,
+      entities: [],
+      alternatives: alternatives.map(([category, confidence]) => ({ category, confidence })),
+    },
+    sentiment,
+  };
+}
+
+describe("routeResponse", () => {
+  it("hands turns with a skill to the skill", () => {
+    expect(routeResponse({ ...input("weather", 0.9), skill: "weather" })).toEqual({
+      route: "skill",
+      reason: "weather (0.90) is handled by the weather skill",
+    });
+  });
+
+  it("answers questions with the Q&A prompt", () => {
+    expect(routeResponse(input("question", 0.8)).route).toBe("qa");
+  });
+
+  it("prefers support when it is within the margin of the winner", () => {
+    expect(routeResponse(input("question", 0.8, [["emotion_support", 0.7]]))).toEqual({
+      route: "support",
+      reason: "emotion_support (0.70) is within 0.15 of question (0.80)",
+    });
+    expect(routeResponse(input("question", 0.8, [["emotion_support", 0.6]])).route).toBe("qa");
+  });
+
+  it("supports a distressed user whatever the intent", () => {
+    expect(routeResponse(input("greeting", 0.9, [], { emotion: "sad", valence: -0.6 })).route).toBe("support");
+    expect(routeResponse(input("greeting", 0.9, [], { emotion: "angry", valence: -0.8 })).route).toBe("smalltalk");
+    expect(routeResponse(input("greeting", 0.9, [], { emotion: "sad", valence: -0.2 })).route).toBe("smalltalk");
+  });
+
+  it("treats a close question runner-up as a question", () => {
+    expect(routeResponse(input("greeting", 0.7, [["question", 0.6]])).route).toBe("qa");
+  });
+
+  it("falls back to small talk", () => {
+    expect(routeResponse(input("unknown", 0, [["question", 0.1]]))).toEqual({ route: "smalltalk", reason: "no intent matched" });
+    expect(routeResponse(input("greeting", 0.9)).reason).toBe("greeting (0.90) intent has no skill");
+  });
+});
+
+describe("rerouteWithoutSkill", () => {
+  it("routes again and says the skill passed", () => {
+    expect(rerouteWithoutSkill({ ...input("music", 0.9), skill: "music" }, "music")).toEqual({
+      route: "smalltalk",
+      reason: "the music skill passed; music (0.90) intent has no skill",
+    });
+  });
+});
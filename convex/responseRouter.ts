@@ -0,0 +1,77 @@
+// Response router. Once the safety layer and moderation have let a turn
+// through, decides how it is answered:
+//
+//   - "skill": the skill registered for the intent replies directly.
+//   - "qa": a factual question, answered with the Q&A prompt.
+//   - "support": the user needs emotional support more than information.
+//   - "smalltalk": everything else gets a conversational reply.
+//
+// The decision rests on the intent ranking rather than on keywords. A
+// runner-up intent within ROUTE_MARGIN of the winner counts as a real
+// alternative, so "I don't know why I'm sad" goes to support even when the
+// "why" makes it look like a question. The routing and its reason are stored
+// on the assistant message for debugging.
+//
+// Everything here is a pure function so it can run outside of Convex.
+
+import type { Intent, Routing, Sentiment } from "./validators";
+
+// How close a runner-up's confidence has to be to the winner's to be
+// considered instead.
+export const ROUTE_MARGIN = 0.15;
+
+// Sad or fearful turns at or below this valence are routed to support.
+export const SUPPORT_VALENCE = -0.4;
+
+export type RoutingInput = {
+  intent: Intent & { alternatives?: Array<{ category: string; confidence: number }> };
+  sentiment: Pick<Sentiment, "emotion" | "valence">;
+  // The skill registered for the intent's category, if any.
+  skill?: string;
+};
+
+function describe(category: string, confidence: number) {
+  return `${category} (${confidence.toFixed(2)})`;
+}
+
+export function routeResponse({ intent, sentiment, skill }: RoutingInput): Routing {
+  const winner = describe(intent.category, intent.confidence);
+  if (skill) {
+    return { route: "skill", reason: `${winner} is handled by the ${skill} skill` };
+  }
+  if (intent.category === "emotion_support") {
+    return { route: "support", reason: `${winner} intent` };
+  }
+
+  const close = intent.category === "unknown"
+    ? []
+    : (intent.alternatives ?? []).filter(alt => intent.confidence - alt.confidence <= ROUTE_MARGIN);
+  const support = close.find(alt => alt.category === "emotion_support");
+  if (support) {
+    return { route: "support", reason: `${describe(support.category, support.confidence)} is within ${ROUTE_MARGIN} of ${winner}` };
+  }
+
+  const distressed = sentiment.valence <= SUPPORT_VALENCE && (sentiment.emotion === "sad" || sentiment.emotion === "fear");
+  if (distressed) {
+    return { route: "support", reason: `${winner} intent with ${sentiment.emotion} sentiment (valence ${sentiment.valence.toFixed(2)})` };
+  }
+
+  if (intent.category === "question") {
+    return { route: "qa", reason: `${winner} intent` };
+  }
+  const question = close.find(alt => alt.category === "question");
+  if (question) {
+    return { route: "qa", reason: `${describe(question.category, question.confidence)} is within ${ROUTE_MARGIN} of ${winner}` };
+  }
+
+  return {
+    route: "smalltalk",
+    reason: intent.category === "unknown" ? "no intent matched" : `${winner} intent has no skill`,
+  };
+}
+
+// Routes a turn again after its skill passed it on to the LLM.
+export function rerouteWithoutSkill(input: RoutingInput, skill: string): Routing {
+  const routing = routeResponse({ ...input, skill: undefined });
+  return { ...routing, reason: `the ${skill} skill passed; ${routing.reason}` };
+}
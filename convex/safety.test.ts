@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { assessRisk, helplineTopic, regionOf, safetyResponse } from "./safety";
+
+describe("assessRisk", () => {
+  it("treats explicit statements as high risk", () => {
+    expect(assessRisk("I want to kill myself", [])).toEqual({
+      level: "high",
+      categories: ["suicide"],
+      matches: ["kill myself"],
+    });
+    expect(assessRisk("I’ve been cutting myself again", []).categories).toEqual(["self_harm"]);
+    expect(assessRisk("My partner hits me", []).categories).toEqual(["abuse"]);
+  });
+
+  it("treats indirect signs as elevated risk", () => {
+    expect(assessRisk("I feel so hopeless lately", [])).toMatchObject({ level: "elevated", matches: ["hopeless"] });
+  });
+
+  it.each([
+    ["I dont want to live anymore", "high"],
+    ["wish id never been born", "high"],
+    ["im being abused", "high"],
+    ["I cant go on", "elevated"],
+    ["he wont let me leave the house", "elevated"],
+  ])("matches %j without apostrophes", (text, level) => {
+    expect(assessRisk(text, []).level).toBe(level);
+  });
+
+  it("ignores ordinary turns of phrase", () => {
+    expect(assessRisk("this traffic is killing me", []).level).toBe("none");
+    expect(assessRisk("I'm dying to see that movie", []).level).toBe("none");
+    expect(assessRisk("remind me to cut the grass", []).level).toBe("none");
+  });
+
+  it("keeps a distressed follow-up elevated after an earlier high-risk message", () => {
+    const history = ["I don't want to live anymore"];
+    expect(assessRisk("I just feel awful", history, -0.6)).toMatchObject({
+      level: "elevated",
+      categories: ["suicide"],
+      matches: ["don't want to live"],
+    });
+    expect(assessRisk("thanks, that helps", history, 0.4).level).toBe("none");
+  });
+});
+
+describe("safety replies", () => {
+  it("uses the abuse helpline only for abuse alone", () => {
+    expect(helplineTopic(assessRisk("he beats me", []))).toBe("abuse");
+    expect(helplineTopic(assessRisk("he beats me and I want to die", []))).toBe("crisis");
+  });
+
+  it("includes the helpline text", () => {
+    const reply = safetyResponse(assessRisk("I want to die", []), "Call 988.");
+    expect(reply).toContain("Call 988.");
+    expect(reply).toContain("emergency services");
+  });
+
+  it("reads the region from the locale", () => {
+    expect(regionOf("en-GB")).toBe("GB");
+    expect(regionOf("zh-Hant-TW")).toBe("TW");
+    expect(regionOf("en")).toBe("*");
+    expect(regionOf(undefined)).toBe("*");
+  });
+});
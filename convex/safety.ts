@@ -0,0 +1,311 @@
+import { query, mutation, internalQuery, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAdmin } from "./auth";
+import { RiskCategory, RiskEscalationLevel, riskCategoryValidator, riskLevelValidator } from "./validators";
+
+// Safety layer for high-risk disclosures: self-harm, suicidal thoughts and
+// abuse. processVoiceInput checks every user turn, together with the user's
+// recent messages, before any skill or LLM sees it. When risk is found the
+// reply is a vetted template with the helpline text configured for the
+// user's region instead of generated text, the conversation is flagged for
+// review and the escalation is logged for admins.
+//
+// Detection is deliberately keyword based and errs towards escalating:
+// a false alarm costs a gentle check-in, a miss costs far more.
+
+export type RiskLevel = "none" | RiskEscalationLevel;
+export type HelplineTopic = "crisis" | "abuse";
+
+export type RiskAssessment = {
+  level: RiskLevel;
+  categories: RiskCategory[];
+  // The phrases that matched, for reviewers.
+  matches: string[];
+};
+
+const helplineTopicValidator = v.union(v.literal("crisis"), v.literal("abuse"));
+
+// How many of the user's previous messages are considered.
+export const RISK_HISTORY_MESSAGES = 5;
+
+// Escalation lists cover at most this many of the newest escalations.
+const MAX_ESCALATIONS = 200;
+
+// Explicit statements; any of these makes the turn high risk. Apostrophes
+// are optional since transcripts and typed messages often leave them out.
+const HIGH_RISK_PATTERNS: Array<[RiskCategory, RegExp]> = [
+  ["suicide", /\b(kill|killing) myself\b/],
+  ["suicide", /\b(end|ending|take|taking) my (own )?life\b/],
+  ["suicide", /\bsuicid(e|al)\b/],
+  ["suicide", /\b(want|wanna|going) to die\b/],
+  ["suicide", /\bwish (i was|i were|i'?d never been) (dead|born)\b/],
+  ["suicide", /\bbetter off dead\b/],
+  ["suicide", /\b(don'?t|do not) want to (live|be alive|wake up)\b/],
+  ["suicide", /\bend it all\b/],
+  ["suicide", /\bno reason to (live|go on|keep going)\b/],
+  ["self_harm", /\b(hurt|hurting|harm|harming|cut|cutting|burn|burning|starve|starving) myself\b/],
+  ["self_harm", /\bself[- ]?harm/],
+  ["self_harm", /\boverdos(e|ed|ing)\b/],
+  ["abuse", /\b(he|she|they|my (partner|husband|wife|boyfriend|girlfriend|dad|father|mom|mum|mother|parents?|stepdad|stepmom|boss)) (hits|hit|beats|beat|chokes|choked|kicks|kicked|abuses|abused|hurts|threatens|threatened|rapes|raped) me\b/],
+  ["abuse", /\b(being|been|was|am|i'?m) (abused|assaulted|raped|molested)\b/],
+  ["abuse", /\b(afraid|scared) (to go|of going) home\b/],
+  ["abuse", /\bdomestic (violence|abuse)\b/],
+];
+
+// Indirect signs of crisis; these make a turn elevated risk.
+const ELEVATED_RISK_PATTERNS: Array<[RiskCategory, RegExp]> = [
+  ["suicide", /\bhopeless\b/],
+  ["suicide", /\b(can'?t|cannot) (go on|take it anymore|do this anymore)\b/],
+  ["suicide", /\bno way out\b/],
+  ["suicide", /\bnobody would (care|notice|miss me)\b/],
+  ["suicide", /\bgive up on (life|everything)\b/],
+  ["suicide", /\b(disappear|vanish) forever\b/],
+  ["abuse", /\b(he|she|they) (won'?t let me|controls? everything|took my phone)\b/],
+];
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/’/g, "'").replace(/\s+/g, " ");
+}
+
+function findMatches(text: string, patterns: Array<[RiskCategory, RegExp]>) {
+  const normalized = normalize(text);
+  const found: Array<{ category: RiskCategory; match: string }> = [];
+  for (const [category, pattern] of patterns) {
+    const match = normalized.match(pattern);
+    if (match) found.push({ category, match: match[0] });
+  }
+  return found;
+}
+
+// Assesses the current turn in the light of the user's recent messages. A
+// high-risk statement earlier in the conversation keeps following turns at
+// elevated risk while the user still sounds distressed.
+export function assessRisk(text: string, history: string[], valence = 0): RiskAssessment {
+  const high = findMatches(text, HIGH_RISK_PATTERNS);
+  const elevated = findMatches(text, ELEVATED_RISK_PATTERNS);
+  const earlier = history.flatMap(message => findMatches(message, HIGH_RISK_PATTERNS));
+
+  let level: RiskLevel = "none";
+  let found = [...high, ...elevated];
+  if (high.length > 0) {
+    level = "high";
+  } else if (elevated.length > 0) {
+    level = "elevated";
+  } else if (earlier.length > 0 && valence < 0) {
+    level = "elevated";
+    found = earlier;
+  }
+
+  return {
+    level,
+    categories: [...new Set(found.map(item => item.category))],
+    matches: [...new Set(found.map(item => item.match))],
+  };
+}
+
+export function helplineTopic(assessment: RiskAssessment): HelplineTopic {
+  return assessment.categories.length === 1 && assessment.categories[0] === "abuse" ? "abuse" : "crisis";
+}
+
+// The vetted replies. The helpline text is appended as configured.
+export function safetyResponse(assessment: RiskAssessment, helpline: string): string {
+  let opening: string;
+  if (helplineTopic(assessment) === "abuse") {
+    opening = "What you're describing sounds frightening, and it isn't your fault. You deserve to be safe.";
+  } else if (assessment.level === "high") {
+    opening = "I'm really sorry you're feeling this way, and I'm glad you told me. Your safety matters most right now, and you don't have to go through this alone.";
+  } else {
+    opening = "It sounds like things have been really heavy lately. I want to check in: are you having thoughts of hurting yourself?";
+  }
+  return [
+    opening,
+    helpline,
+    "If you're in immediate danger, please contact your local emergency services. I'm here to keep talking with you too.",
+  ].join(" ");
+}
+
+export const DEFAULT_HELPLINES: Array<{ region: string; topic: HelplineTopic; text: string }> = [
+  {
+    region: "*",
+    topic: "crisis",
+    text: "You can find a free, confidential crisis line in your country at findahelpline.com.",
+  },
+  {
+    region: "*",
+    topic: "abuse",
+    text: "You can find a free, confidential helpline for abuse in your country at findahelpline.com.",
+  },
+  {
+    region: "US",
+    topic: "crisis",
+    text: "You can call or text 988 to reach the Suicide and Crisis Lifeline, any time, day or night.",
+  },
+  {
+    region: "US",
+    topic: "abuse",
+    text: "You can call the National Domestic Violence Hotline on 1-800-799-7233, or text START to 88788.",
+  },
+  {
+    region: "GB",
+    topic: "crisis",
+    text: "You can call Samaritans for free on 116 123, any time, day or night.",
+  },
+  {
+    region: "GB",
+    topic: "abuse",
+    text: "You can call the free 24-hour National Domestic Abuse Helpline on 0808 2000 247.",
+  },
+];
+
+// "en-GB" → "GB". Locales without a region use the "*" helplines.
+export function regionOf(locale?: string) {
+  const region = locale?.split("-").find((part, i) => i > 0 && /^[a-z]{2}$/i.test(part));
+  return region?.toUpperCase() ?? "*";
+}
+
+async function findHelpline(ctx: QueryCtx, region: string, topic: HelplineTopic) {
+  for (const [r, t] of [[region, topic], ["*", topic], [region, "crisis"], ["*", "crisis"]] as const) {
+    const helpline = await ctx.db
+      .query("helplines")
+      .withIndex("by_region_and_topic", q => q.eq("region", r).eq("topic", t))
+      .first();
+    if (helpline) return helpline.text;
+  }
+  return DEFAULT_HELPLINES.find(helpline => helpline.region === "*" && helpline.topic === topic)!.text;
+}
+
+export const helplineFor = internalQuery({
+  args: {
+    locale: v.optional(v.string()),
+    topic: helplineTopicValidator,
+  },
+  handler: async (ctx, args) => {
+    return await findHelpline(ctx, regionOf(args.locale), args.topic);
+  },
+});
+
+// Logs an escalation and flags its conversation for review.
+export const escalate = internalMutation({
+  args: {
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    level: riskLevelValidator,
+    categories: v.array(riskCategoryValidator),
+    matches: v.array(v.string()),
+    region: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    await ctx.db.insert("safetyEscalations", { ...args, status: "open", createdAt: now });
+    await ctx.db.patch(args.conversationId, { flaggedForReview: true, flaggedAt: now });
+  },
+});
+
+export const listEscalations = query({
+  args: { status: v.union(v.literal("open"), v.literal("reviewed")) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const escalations = await ctx.db
+      .query("safetyEscalations")
+      .withIndex("by_status_and_created", q => q.eq("status", args.status))
+      .order("desc")
+      .take(MAX_ESCALATIONS);
+    return await Promise.all(escalations.map(async escalation => {
+      const message = await ctx.db.get(escalation.messageId);
+      return { ...escalation, text: message?.content ?? null };
+    }));
+  },
+});
+
+// Marks an escalation reviewed. The conversation stays flagged until all of
+// its escalations have been reviewed.
+export const markReviewed = mutation({
+  args: {
+    escalationId: v.id("safetyEscalations"),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const escalation = await ctx.db.get(args.escalationId);
+    if (!escalation) {
+      throw new Error("Escalation not found");
+    }
+    await ctx.db.patch(escalation._id, {
+      status: "reviewed",
+      reviewedBy: userId,
+      reviewedAt: Date.now(),
+      note: args.note?.trim() || undefined,
+    });
+
+    const stillOpen = await ctx.db
+      .query("safetyEscalations")
+      .withIndex("by_conversation", q => q.eq("conversationId", escalation.conversationId))
+      .filter(q => q.eq(q.field("status"), "open"))
+      .first();
+    const conversation = await ctx.db.get(escalation.conversationId);
+    if (!stillOpen && conversation) {
+      await ctx.db.patch(conversation._id, { flaggedForReview: false });
+    }
+  },
+});
+
+export const listHelplines = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const helplines = await ctx.db.query("helplines").collect();
+    return helplines.sort((a, b) => a.region.localeCompare(b.region) || a.topic.localeCompare(b.topic));
+  },
+});
+
+export const saveHelpline = mutation({
+  args: {
+    region: v.string(),
+    topic: helplineTopicValidator,
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const region = args.region.trim().toUpperCase();
+    const text = args.text.trim();
+    if (region !== "*" && !/^[A-Z]{2}$/.test(region)) {
+      throw new Error('Region must be a two-letter country code, or "*" for everywhere else');
+    }
+    if (!text) {
+      throw new Error("Helpline text can't be empty");
+    }
+
+    const existing = await ctx.db
+      .query("helplines")
+      .withIndex("by_region_and_topic", q => q.eq("region", region).eq("topic", args.topic))
+      .first();
+    const fields = { text, updatedAt: Date.now(), updatedBy: userId };
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+    return await ctx.db.insert("helplines", { region, topic: args.topic, ...fields });
+  },
+});
+
+export const removeHelpline = mutation({
+  args: { helplineId: v.id("helplines") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const helpline = await ctx.db.get(args.helplineId);
+    if (!helpline) return;
+    if (helpline.region === "*") {
+      throw new Error("The helplines for everywhere else can be edited but not deleted");
+    }
+    await ctx.db.delete(helpline._id);
+  },
+});
+
+// Seeds the default helplines into a deployment that has none yet.
+export async function seedHelplines(ctx: MutationCtx) {
+  if (await ctx.db.query("helplines").first()) return;
+  for (const helpline of DEFAULT_HELPLINES) {
+    await ctx.db.insert("helplines", helpline);
+  }
+}
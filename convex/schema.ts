@@ -1,44 +1,205 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { intentValidator, sentimentValidator, skillUIValidator, forecastValidator, dialogueFrameValidator, preferencesValidator, turnMetricsValidator, riskLevelValidator, riskCategoryValidator, moderationRecordValidator, routingValidator, memoryKindValidator } from "./validators";
 
 const applicationTables = {
+  // Convex Auth's users table, extended with an application role.
+  users: defineTable({
+    name: v.optional(v.string()),
+    image: v.optional(v.string()),
+    email: v.optional(v.string()),
+    emailVerificationTime: v.optional(v.number()),
+    phone: v.optional(v.string()),
+    phoneVerificationTime: v.optional(v.number()),
+    isAnonymous: v.optional(v.boolean()),
+    role: v.optional(v.union(v.literal("admin"), v.literal("user"))),
+  }).index("email", ["email"])
+    .index("phone", ["phone"]),
+
   conversations: defineTable({
     userId: v.id("users"),
     sessionId: v.string(),
-    messages: v.array(v.object({
+    // Legacy embedded messages, from before they moved to the messages
+    // table. Removed by migrations:moveMessagesToTable.
+    messages: v.optional(v.array(v.object({
       id: v.string(),
       type: v.union(v.literal("user"), v.literal("assistant")),
       content: v.string(),
       timestamp: v.number(),
-      sentiment: v.optional(v.object({
-        emotion: v.string(),
-        confidence: v.number(),
-        valence: v.number(), // -1 to 1 (negative to positive)
-        arousal: v.number(), // 0 to 1 (calm to excited)
-      })),
-      intent: v.optional(v.object({
-        category: v.string(),
-        confidence: v.number(),
-        entities: v.array(v.object({
-          type: v.string(),
-          value: v.string(),
-          confidence: v.number(),
-        })),
-      })),
-    })),
+      sentiment: v.optional(sentimentValidator),
+      intent: v.optional(intentValidator),
+      streaming: v.optional(v.boolean()),
+      interrupted: v.optional(v.boolean()),
+      spokenChars: v.optional(v.number()),
+      skill: v.optional(v.string()),
+      ui: v.optional(skillUIValidator),
+    }))),
     context: v.object({
       userMood: v.string(),
       conversationTopic: v.optional(v.string()),
       lastIntent: v.optional(v.string()),
-      preferences: v.object({
-        responseStyle: v.string(), // "empathetic", "professional", "casual"
-        verbosity: v.string(), // "brief", "detailed"
-      }),
+      // Session preferences, seeded from userPreferences and changed by
+      // voice ("be more brief").
+      preferences: preferencesValidator,
+      // The skill waiting on an answer to a follow-up question, if any.
+      activeFrame: v.optional(dialogueFrameValidator),
     }),
+    // Shown in the session list. Titles are generated from the first
+    // exchange until the user renames the session (titleSource "user").
+    title: v.optional(v.string()),
+    titleSource: v.optional(v.union(v.literal("auto"), v.literal("user"))),
+    pinned: v.optional(v.boolean()),
+    lastMessageAt: v.optional(v.number()),
+    // Number of user messages per detected emotion.
+    moodCounts: v.optional(v.record(v.string(), v.number())),
+    messageCount: v.optional(v.number()),
+    // Set when the safety layer escalated a turn, until an admin has
+    // reviewed every escalation.
+    flaggedForReview: v.optional(v.boolean()),
+    flaggedAt: v.optional(v.number()),
+    // Rolling summary of the messages up to summarizedThrough (a message
+    // timestamp), see convex/summaries.ts. summaryScheduledAt is set while
+    // a new summary is being written.
+    summary: v.optional(v.string()),
+    summarizedThrough: v.optional(v.number()),
+    summaryUpdatedAt: v.optional(v.number()),
+    summaryScheduledAt: v.optional(v.number()),
   }).index("by_user_and_session", ["userId", "sessionId"])
     .index("by_user", ["userId"]),
 
+  messages: defineTable({
+    conversationId: v.id("conversations"),
+    userId: v.id("users"),
+    type: v.union(v.literal("user"), v.literal("assistant")),
+    content: v.string(),
+    timestamp: v.number(),
+    sentiment: v.optional(sentimentValidator),
+    intent: v.optional(intentValidator),
+    // True while an assistant response is still being streamed in.
+    streaming: v.optional(v.boolean()),
+    // Set when the user cut the spoken reply off; spokenChars is how much
+    // of `content` had been read aloud by then.
+    interrupted: v.optional(v.boolean()),
+    spokenChars: v.optional(v.number()),
+    // Name of the skill that produced an assistant reply, and its UI payload.
+    skill: v.optional(v.string()),
+    ui: v.optional(skillUIValidator),
+    // What moderation filtered; only set when a rule matched.
+    moderation: v.optional(moderationRecordValidator),
+    // How the router chose to answer, on assistant replies to routed turns.
+    routing: v.optional(routingValidator),
+  }).index("by_conversation_and_timestamp", ["conversationId", "timestamp"])
+    .index("by_user_and_type_and_timestamp", ["userId", "type", "timestamp"]),
+
+  // What users told us about a message. On user messages the labels are the
+  // emotion and intent they confirmed or corrected, alongside what was
+  // detected; on assistant messages only the rating is used.
+  messageFeedback: defineTable({
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    messageType: v.union(v.literal("user"), v.literal("assistant")),
+    text: v.string(),
+    rating: v.optional(v.union(v.literal("up"), v.literal("down"))),
+    predictedEmotion: v.optional(v.string()),
+    predictedIntent: v.optional(v.string()),
+    emotionLabel: v.optional(v.string()),
+    intentLabel: v.optional(v.string()),
+    updatedAt: v.number(),
+  }).index("by_message", ["messageId"])
+    .index("by_conversation", ["conversationId"])
+    .index("by_updated", ["updatedAt"]),
+
+  // Timings and provider details of each processed voice turn.
+  turnMetrics: defineTable({
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+    timestamp: v.number(),
+    ...turnMetricsValidator.fields,
+  }).index("by_user_and_timestamp", ["userId", "timestamp"])
+    .index("by_message", ["messageId"]),
+
+  // Turns where the safety layer replaced the reply with a crisis template.
+  // `matches` are the phrases that triggered it.
+  safetyEscalations: defineTable({
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    level: riskLevelValidator,
+    categories: v.array(riskCategoryValidator),
+    matches: v.array(v.string()),
+    region: v.string(),
+    status: v.union(v.literal("open"), v.literal("reviewed")),
+    createdAt: v.number(),
+    reviewedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    note: v.optional(v.string()),
+  }).index("by_status_and_created", ["status", "createdAt"])
+    .index("by_conversation", ["conversationId"]),
+
+  // Data-driven moderation rules, see convex/moderation.ts. `pattern` is a
+  // case-insensitive regular expression.
+  moderationRules: defineTable({
+    kind: v.union(v.literal("injection"), v.literal("pii"), v.literal("blocklist")),
+    name: v.string(),
+    pattern: v.string(),
+    action: v.union(v.literal("flag"), v.literal("redact"), v.literal("block")),
+    replacement: v.optional(v.string()),
+    enabled: v.boolean(),
+    updatedAt: v.optional(v.number()),
+    updatedBy: v.optional(v.id("users")),
+  }),
+
+  // Long-term facts about a user, remembered across conversations. See
+  // convex/memories.ts.
+  userMemories: defineTable({
+    userId: v.id("users"),
+    kind: memoryKindValidator,
+    value: v.string(),
+    // "conversation" when picked up from what the user said, "user" when
+    // they asked for it to be remembered or corrected it.
+    source: v.union(v.literal("conversation"), v.literal("user")),
+    // The message it was learned from.
+    messageId: v.optional(v.id("messages")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user_and_kind", ["userId", "kind"])
+    .index("by_message", ["messageId"]),
+
+  // Helpline text included in safety replies, per two-letter region code
+  // ("*" for everywhere else) and topic.
+  helplines: defineTable({
+    region: v.string(),
+    topic: v.union(v.literal("crisis"), v.literal("abuse")),
+    text: v.string(),
+    updatedAt: v.optional(v.number()),
+    updatedBy: v.optional(v.id("users")),
+  }).index("by_region_and_topic", ["region", "topic"]),
+
+  reminders: defineTable({
+    userId: v.id("users"),
+    // The session it was set in, cleared when that session is deleted.
+    sessionId: v.optional(v.string()),
+    subject: v.string(),
+    dueAt: v.number(),
+    status: v.union(v.literal("scheduled"), v.literal("fired"), v.literal("cancelled")),
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
+    firedAt: v.optional(v.number()),
+    // Set once the client has shown the notification.
+    acknowledgedAt: v.optional(v.number()),
+    snoozeCount: v.number(),
+  }).index("by_user_and_status_and_due", ["userId", "status", "dueAt"])
+    .index("by_user_and_session", ["userId", "sessionId"]),
+
+  // Forecasts keyed by provider and the lowercased location asked for.
+  weatherCache: defineTable({
+    provider: v.string(),
+    location: v.string(),
+    forecast: forecastValidator,
+    fetchedAt: v.number(),
+  }).index("by_provider_and_location", ["provider", "location"]),
+
   intents: defineTable({
     category: v.string(),
     patterns: v.array(v.string()),
@@ -48,23 +209,85 @@ const applicationTables = {
       patterns: v.array(v.string()),
     })),
     requiredConfidence: v.number(),
+    // Missing on intents seeded before versioning; treated as enabled, version 1.
+    enabled: v.optional(v.boolean()),
+    version: v.optional(v.number()),
+    updatedAt: v.optional(v.number()),
+    updatedBy: v.optional(v.id("users")),
   }).index("by_category", ["category"]),
 
+  // Snapshot of every saved revision of an intent.
+  intentVersions: defineTable({
+    intentId: v.id("intents"),
+    version: v.number(),
+    category: v.string(),
+    patterns: v.array(v.string()),
+    responses: v.array(v.string()),
+    entities: v.array(v.object({
+      type: v.string(),
+      patterns: v.array(v.string()),
+    })),
+    requiredConfidence: v.number(),
+    enabled: v.boolean(),
+    createdAt: v.number(),
+    createdBy: v.id("users"),
+  }).index("by_intent_and_version", ["intentId", "version"]),
+
+  // Keyword models used by analyzeSentiment. Each user message is analyzed
+  // with the active model for the client's locale; a candidate model for the
+  // same locale also runs in shadow and its output is stored in
+  // sentimentComparisons. Models seeded before this had no status, locale or
+  // version and are treated as active, for every locale, version 1.
   sentimentModels: defineTable({
     name: v.string(),
-    emotionKeywords: v.object({
-      happy: v.array(v.string()),
-      sad: v.array(v.string()),
-      angry: v.array(v.string()),
-      fear: v.array(v.string()),
-      surprise: v.array(v.string()),
-      neutral: v.array(v.string()),
-    }),
+    // BCP 47 tag such as "en" or "de-DE"; models without one serve every
+    // locale that has no model of its own.
+    locale: v.optional(v.string()),
+    status: v.optional(v.union(v.literal("active"), v.literal("candidate"), v.literal("draft"))),
+    // Keywords per emotion. Emotions other than the six built-in ones are
+    // allowed; they don't move valence or arousal.
+    emotionKeywords: v.record(v.string(), v.array(v.string())),
     intensityModifiers: v.array(v.object({
       word: v.string(),
       multiplier: v.number(),
     })),
-  }),
+    version: v.optional(v.number()),
+    updatedAt: v.optional(v.number()),
+    updatedBy: v.optional(v.id("users")),
+  }).index("by_name", ["name"]),
+
+  // Snapshot of every saved revision of a sentiment model.
+  sentimentModelVersions: defineTable({
+    modelId: v.id("sentimentModels"),
+    version: v.number(),
+    name: v.string(),
+    locale: v.optional(v.string()),
+    emotionKeywords: v.record(v.string(), v.array(v.string())),
+    intensityModifiers: v.array(v.object({
+      word: v.string(),
+      multiplier: v.number(),
+    })),
+    createdAt: v.number(),
+    createdBy: v.id("users"),
+  }).index("by_model_and_version", ["modelId", "version"]),
+
+  // The active and candidate model's output for the same user message.
+  sentimentComparisons: defineTable({
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+    candidateModelId: v.id("sentimentModels"),
+    primary: sentimentValidator,
+    candidate: sentimentValidator,
+    timestamp: v.number(),
+  }).index("by_candidate_and_timestamp", ["candidateModelId", "timestamp"])
+    .index("by_message", ["messageId"]),
+
+  // Default response preferences for new conversations.
+  userPreferences: defineTable({
+    userId: v.id("users"),
+    ...preferencesValidator.fields,
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"]),
 
   voiceSettings: defineTable({
     userId: v.id("users"),
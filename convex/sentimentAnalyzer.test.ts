@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSentimentText, explainSentiment } from "./sentimentAnalyzer";
+import { DEFAULT_SENTIMENT_MODEL } from "./nluDefaults";
+
+const analyze = (text: string) => analyzeSentimentText(text, DEFAULT_SENTIMENT_MODEL);
+const explain = (text: string) => explainSentiment(text, DEFAULT_SENTIMENT_MODEL);
+
+describe("analyzeSentimentText", () => {
+  it("matches whole words and stems", () => {
+    expect(analyze("I'm so happy today").emotion).toBe("happy");
+    expect(analyze("I'm unhappy").emotion).toBe("sad");
+    expect(analyze("that's so annoying").emotion).toBe("angry");
+  });
+
+  it("is neutral without emotion words", () => {
+    expect(analyze("the meeting is at three")).toMatchObject({ emotion: "neutral", valence: 0 });
+  });
+
+  it("flips negated emotion words", () => {
+    expect(analyze("I am not happy")).toMatchObject({ emotion: "sad", valence: -1 });
+    expect(analyze("I'm not sad")).toMatchObject({ emotion: "neutral", valence: 0 });
+  });
+
+  it("scales only by the modifier in front of the word", () => {
+    expect(explain("I am very happy").contributions[0]).toMatchObject({ weight: 1.5, reasons: ["very ×1.5"] });
+    expect(analyze("I am slightly happy").confidence).toBeLessThan(analyze("I am happy").confidence);
+  });
+
+  it("lets the clause after but win", () => {
+    const explanation = explain("It was good but I'm really angry");
+    expect(explanation.sentiment.emotion).toBe("angry");
+    expect(explanation.contributions.find(c => c.emotion === "angry")?.reasons).toContain("after contrast");
+  });
+
+  it("strengthens exclamations and reads sarcasm as annoyance", () => {
+    expect(explain("THIS IS GREAT!!!").contributions[0].reasons.some(reason => reason.startsWith("exclamation"))).toBe(true);
+    expect(explain("oh great, yeah right 🙄").contributions[0]).toMatchObject({ keywordEmotion: "happy", emotion: "angry", reasons: ["sarcasm"] });
+  });
+
+  it("reads emoji", () => {
+    expect(analyze("😢").emotion).toBe("sad");
+  });
+
+  it("keeps valence and arousal in range", () => {
+    for (const text of ["I AM SO VERY VERY ANGRY!!!!!", "happy happy joy joy", "not not not"]) {
+      const sentiment = analyze(text);
+      expect(sentiment.valence).toBeGreaterThanOrEqual(-1);
+      expect(sentiment.valence).toBeLessThanOrEqual(1);
+      expect(sentiment.arousal).toBeGreaterThanOrEqual(0);
+      expect(sentiment.arousal).toBeLessThanOrEqual(1);
+      expect(sentiment.confidence).toBeLessThanOrEqual(1);
+    }
+  });
+});
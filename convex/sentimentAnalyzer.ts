@@ -0,0 +1,304 @@
+// Token-level sentiment analysis.
+//
+// The text is split into words, emoji and punctuation. Each word (or run of
+// words) that matches an emotion keyword of the sentiment model contributes
+// to that emotion, matched on whole words and stems so "unhappy" no longer
+// counts as "happy" while "annoying" matches "annoyed". A contribution is
+// then adjusted by its context:
+//
+//   - negation: "not", "never", "don't" and friends flip the next few words
+//     up to the end of the clause, so "not happy" counts towards sad and
+//     "not sad" towards neutral;
+//   - intensity modifiers ("very", "slightly") scale only the emotion word
+//     they precede;
+//   - contrast: in "X but Y" the clause after "but" outweighs the one before;
+//   - emphasis: exclamation marks and ALL CAPS words strengthen a clause;
+//   - sarcasm markers ("yeah right", 🙄) turn praise into annoyance.
+//
+// Emoji carry an emotion of their own. Valence and arousal are derived from
+// the resulting emotion scores as before. Everything here is a pure function
+// so it can run outside of Convex.
+
+import type { Doc } from "./_generated/dataModel";
+import type { Sentiment } from "./validators";
+import { stem } from "./intentClassifier";
+
+export type SentimentModel = Pick<Doc<"sentimentModels">, "emotionKeywords" | "intensityModifiers">;
+
+export type SentimentContribution = {
+  // The words or emoji that matched, as written.
+  token: string;
+  // The emotion the keyword belongs to, and the one it counted towards after
+  // negation or sarcasm.
+  keywordEmotion: string;
+  emotion: string;
+  weight: number;
+  reasons: string[];
+};
+
+export type SentimentExplanation = {
+  sentiment: Sentiment;
+  contributions: SentimentContribution[];
+  scores: Record<string, number>;
+};
+
+type Token =
+  | { kind: "word"; text: string; lower: string; term: string }
+  | { kind: "emoji"; text: string }
+  | { kind: "punctuation"; text: string };
+
+const NEGATORS = new Set(["not", "no", "never", "nothing", "nobody", "none", "neither", "nor", "hardly", "barely", "without", "cannot"]);
+// How many words after a negator it applies to, unless the clause ends first.
+const NEGATION_SCOPE = 3;
+// How far ahead an intensity modifier looks for the word it modifies.
+const MODIFIER_REACH = 2;
+
+// What a negated emotion word counts towards, and how strongly. Emotions not
+// listed (including custom ones) fall back to neutral.
+const NEGATED: Record<string, { emotion: string; factor: number }> = {
+  happy: { emotion: "sad", factor: 0.8 },
+  neutral: { emotion: "sad", factor: 0.6 },
+  sad: { emotion: "neutral", factor: 0.6 },
+  angry: { emotion: "neutral", factor: 0.6 },
+  fear: { emotion: "neutral", factor: 0.6 },
+  surprise: { emotion: "neutral", factor: 0.6 },
+};
+
+const CONTRAST_WORDS = new Set(["but", "however", "though", "although"]);
+// "X but Y": Y is what the speaker means. With "although X, Y" the clause
+// after "although" is the weaker one and the one after the comma the stronger.
+const BEFORE_CONTRAST_WEIGHT = 0.5;
+const AFTER_CONTRAST_WEIGHT = 1.5;
+
+const CAPS_WEIGHT = 1.5;
+const EXCLAMATION_STEP = 0.15;
+const MAX_EXCLAMATIONS = 3;
+
+const EMOJI_EMOTIONS: Record<string, string> = {
+  "😀": "happy", "😃": "happy", "😄": "happy", "😁": "happy", "😊": "happy", "🙂": "happy", "😍": "happy",
+  "🥰": "happy", "😂": "happy", "🤣": "happy", "❤": "happy", "💖": "happy", "👍": "happy", "🎉": "happy", "🥳": "happy",
+  "😢": "sad", "😭": "sad", "😞": "sad", "😔": "sad", "🙁": "sad", "☹": "sad", "💔": "sad", "😿": "sad",
+  "😠": "angry", "😡": "angry", "🤬": "angry", "👎": "angry", "😤": "angry",
+  "😨": "fear", "😰": "fear", "😱": "fear", "😟": "fear", "😬": "fear",
+  "😮": "surprise", "😲": "surprise", "🤯": "surprise", "😯": "surprise",
+  "😐": "neutral", "😶": "neutral",
+};
+
+const SARCASM_EMOJI = new Set(["🙄", "😒", "🙃"]);
+const SARCASM_PHRASES = [/\byeah,? right\b/i, /\boh,? (?:great|wonderful|perfect|fantastic)\b/i, /\bjust (?:great|perfect|wonderful)\b/i, /(?:^|\s)\/s\b/];
+const POSITIVE_EMOTIONS = new Set(["happy"]);
+
+const TOKEN_PATTERN = /(\p{Extended_Pictographic})️?|([\p{L}\p{N}]+(?:['’][\p{L}]+)*)|([!?.,;:]+)/gu;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (match[1]) {
+      tokens.push({ kind: "emoji", text: match[1] });
+    } else if (match[2]) {
+      const lower = match[2].toLowerCase().replace(/’/g, "'");
+      tokens.push({ kind: "word", text: match[2], lower, term: stem(lower) });
+    } else {
+      tokens.push({ kind: "punctuation", text: match[3] });
+    }
+  }
+  return tokens;
+}
+
+function isNegator(token: Token) {
+  return token.kind === "word" && (NEGATORS.has(token.lower) || token.lower.endsWith("n't"));
+}
+
+function isClauseBreak(token: Token) {
+  return token.kind === "punctuation" || (token.kind === "word" && CONTRAST_WORDS.has(token.lower));
+}
+
+// Shouting: a word of two or more letters in capitals, in text that is not
+// written entirely in capitals.
+function isShouted(token: Token, allCaps: boolean) {
+  return token.kind === "word" && !allCaps && token.text.length >= 2 && /\p{Lu}/u.test(token.text) && token.text === token.text.toUpperCase();
+}
+
+type Keyword = { emotion: string; words: string[]; terms: string[] };
+
+function compileKeywords(model: SentimentModel): Keyword[] {
+  const keywords: Keyword[] = [];
+  for (const [emotion, list] of Object.entries(model.emotionKeywords)) {
+    for (const keyword of list) {
+      const words = keyword.toLowerCase().split(/\s+/).filter(Boolean);
+      if (words.length > 0) keywords.push({ emotion, words, terms: words.map(stem) });
+    }
+  }
+  // Longer phrases first, so "not bad at all" style phrases win over their parts.
+  return keywords.sort((a, b) => b.words.length - a.words.length);
+}
+
+function matchKeyword(tokens: Token[], index: number, keywords: Keyword[]) {
+  for (const keyword of keywords) {
+    const matches = keyword.words.every((word, offset) => {
+      const token = tokens[index + offset];
+      return token?.kind === "word" && (token.lower === word || token.term === keyword.terms[offset]);
+    });
+    if (matches) return keyword;
+  }
+  return undefined;
+}
+
+// The weight of each clause, from "but"-style contrast, and the number of
+// exclamation marks closing it.
+function clauseInfo(tokens: Token[]) {
+  const clauseOf: number[] = [];
+  const clauses: Array<{ weight: number; exclamations: number }> = [{ weight: 1, exclamations: 0 }];
+  let inConcession = false;
+  for (const token of tokens) {
+    if (token.kind === "word" && CONTRAST_WORDS.has(token.lower)) {
+      inConcession = token.lower === "although" || token.lower === "though";
+      if (!inConcession) clauses[clauses.length - 1].weight *= BEFORE_CONTRAST_WEIGHT;
+      clauses.push({ weight: inConcession ? BEFORE_CONTRAST_WEIGHT : AFTER_CONTRAST_WEIGHT, exclamations: 0 });
+    } else if (token.kind === "punctuation") {
+      clauses[clauses.length - 1].exclamations += (token.text.match(/!/g) ?? []).length;
+      if (/[.;!?]/.test(token.text)) {
+        clauses.push({ weight: 1, exclamations: 0 });
+        inConcession = false;
+      } else if (inConcession) {
+        clauses.push({ weight: AFTER_CONTRAST_WEIGHT, exclamations: 0 });
+        inConcession = false;
+      }
+    }
+    clauseOf.push(clauses.length - 1);
+  }
+  return { clauseOf, clauses };
+}
+
+export function explainSentiment(text: string, model: SentimentModel): SentimentExplanation {
+  const tokens = tokenize(text);
+  const keywords = compileKeywords(model);
+  const modifiers = new Map(model.intensityModifiers.map(modifier => [modifier.word.toLowerCase(), modifier.multiplier]));
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  const allCaps = letters.length > 0 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+  const sarcastic = tokens.some(token => token.kind === "emoji" && SARCASM_EMOJI.has(token.text)) ||
+    SARCASM_PHRASES.some(pattern => pattern.test(text));
+  const { clauseOf, clauses } = clauseInfo(tokens);
+
+  const contributions: SentimentContribution[] = [];
+  let negatedUntil = -1;
+  let shouted = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isClauseBreak(token)) {
+      negatedUntil = -1;
+      continue;
+    }
+    if (isNegator(token)) {
+      negatedUntil = i + NEGATION_SCOPE;
+      continue;
+    }
+    if (isShouted(token, allCaps)) shouted = true;
+
+    let keywordEmotion: string | undefined;
+    let length = 1;
+    if (token.kind === "emoji") {
+      keywordEmotion = EMOJI_EMOTIONS[token.text];
+    } else if (token.kind === "word") {
+      const keyword = matchKeyword(tokens, i, keywords);
+      keywordEmotion = keyword?.emotion;
+      length = keyword?.words.length ?? 1;
+    }
+    if (!keywordEmotion) continue;
+
+    const reasons: string[] = [];
+    let emotion = keywordEmotion;
+    let weight = 1;
+
+    // Intensity modifiers directly before the word, within the clause.
+    for (let j = i - 1; j >= Math.max(0, i - MODIFIER_REACH); j--) {
+      const previous = tokens[j];
+      if (isClauseBreak(previous)) break;
+      if (previous.kind !== "word") continue;
+      const multiplier = modifiers.get(previous.lower);
+      if (multiplier !== undefined) {
+        weight *= multiplier;
+        reasons.push(`${previous.lower} ×${multiplier}`);
+        break;
+      }
+    }
+
+    if (token.kind === "word" && i <= negatedUntil) {
+      const negated = NEGATED[keywordEmotion] ?? { emotion: "neutral", factor: 0.6 };
+      emotion = negated.emotion;
+      weight *= negated.factor;
+      reasons.push("negated");
+    } else if (sarcastic && POSITIVE_EMOTIONS.has(keywordEmotion)) {
+      emotion = "angry";
+      reasons.push("sarcasm");
+    }
+
+    const words = tokens.slice(i, i + length);
+    if (words.some(word => isShouted(word, allCaps))) {
+      weight *= CAPS_WEIGHT;
+      reasons.push("caps");
+    }
+
+    const clause = clauses[clauseOf[i]];
+    if (clause.weight !== 1) {
+      weight *= clause.weight;
+      reasons.push(clause.weight > 1 ? "after contrast" : "before contrast");
+    }
+    if (clause.exclamations > 0) {
+      const boost = 1 + EXCLAMATION_STEP * Math.min(clause.exclamations, MAX_EXCLAMATIONS);
+      weight *= boost;
+      reasons.push(`exclamation ×${boost.toFixed(2)}`);
+    }
+
+    contributions.push({
+      token: words.map(word => word.text).join(" "),
+      keywordEmotion,
+      emotion,
+      weight,
+      reasons,
+    });
+    i += length - 1;
+  }
+
+  const scores: Record<string, number> = {};
+  for (const emotion of Object.keys(model.emotionKeywords)) {
+    scores[emotion] = 0;
+  }
+  for (const contribution of contributions) {
+    scores[contribution.emotion] = (scores[contribution.emotion] ?? 0) + contribution.weight;
+  }
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  if (total === 0) {
+    scores.neutral = 1;
+  }
+  const share = (emotion: string) => total > 0 ? (scores[emotion] ?? 0) / total : emotion === "neutral" ? 1 : 0;
+
+  // Ties go to the emotion listed later, as before.
+  const dominantEmotion = Object.keys(scores).reduce((a, b) => share(a) > share(b) ? a : b);
+
+  // Confidence is the dominant emotion's share of the evidence, discounted
+  // when there is less than one full-strength keyword's worth of it.
+  const confidence = total > 0 ? share(dominantEmotion) * Math.min(1, total) : 1;
+
+  const exclamations = clauses.reduce((sum, clause) => sum + clause.exclamations, 0);
+  const emphasis = EXCLAMATION_STEP * Math.min(exclamations, MAX_EXCLAMATIONS) + (shouted || allCaps ? 0.2 : 0);
+  const valence = (share("happy") + share("surprise")) - (share("sad") + share("angry") + share("fear"));
+  const arousal = share("angry") + share("fear") + share("surprise") + share("happy") * 0.5 + (total > 0 ? emphasis : 0);
+
+  return {
+    sentiment: {
+      emotion: dominantEmotion,
+      confidence: Math.min(confidence, 1.0),
+      valence: Math.max(-1, Math.min(1, valence)),
+      arousal: Math.max(0, Math.min(1, arousal)),
+    },
+    contributions,
+    scores,
+  };
+}
+
+export function analyzeSentimentText(text: string, model: SentimentModel): Sentiment {
+  return explainSentiment(text, model).sentiment;
+}
@@ -0,0 +1,415 @@
+import { query, mutation, internalQuery, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { requireAdmin } from "./auth";
+import { analyzeSentimentText } from "./sentimentAnalyzer";
+import { Sentiment, sentimentValidator } from "./validators";
+
+// Admin management of the keyword models used by analyzeSentiment. Every
+// change bumps the model's version and stores a snapshot in
+// sentimentModelVersions. For each locale one model is active and at most one
+// is a candidate: the candidate is run in shadow on the same messages and
+// compared with the active model before it is promoted.
+
+// Comparison reports cover at most this many of the newest shadow results.
+const MAX_COMPARISONS = 1000;
+
+const modelFields = {
+  name: v.string(),
+  locale: v.optional(v.string()),
+  emotionKeywords: v.record(v.string(), v.array(v.string())),
+  intensityModifiers: v.array(v.object({
+    word: v.string(),
+    multiplier: v.number(),
+  })),
+};
+
+const statusValidator = v.union(v.literal("active"), v.literal("candidate"), v.literal("draft"));
+
+type ModelFields = Pick<Doc<"sentimentModels">, "name" | "locale" | "emotionKeywords" | "intensityModifiers">;
+type ModelStatus = NonNullable<Doc<"sentimentModels">["status"]>;
+
+function statusOf(model: Doc<"sentimentModels">): ModelStatus {
+  return model.status ?? "active";
+}
+
+function normalizeFields(fields: ModelFields): ModelFields {
+  const name = fields.name.trim();
+  if (!name) {
+    throw new Error("A sentiment model needs a name");
+  }
+
+  const locale = fields.locale?.trim() || undefined;
+  if (locale !== undefined && !/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(locale)) {
+    throw new Error(`"${locale}" is not a locale such as "en" or "de-DE"`);
+  }
+
+  const emotionKeywords: Record<string, string[]> = {};
+  for (const [emotion, keywords] of Object.entries(fields.emotionKeywords)) {
+    const key = emotion.trim().toLowerCase();
+    if (!/^[a-z][a-z0-9_]*$/.test(key)) {
+      throw new Error("Emotions must be lowercase letters, digits and underscores");
+    }
+    const cleaned = keywords.map(keyword => keyword.trim().toLowerCase()).filter(keyword => keyword.length > 0);
+    emotionKeywords[key] = [...new Set([...(emotionKeywords[key] ?? []), ...cleaned])];
+  }
+  if (!Object.values(emotionKeywords).some(keywords => keywords.length > 0)) {
+    throw new Error("A sentiment model needs at least one keyword");
+  }
+
+  const intensityModifiers = fields.intensityModifiers
+    .map(modifier => ({ word: modifier.word.trim().toLowerCase(), multiplier: modifier.multiplier }))
+    .filter(modifier => modifier.word.length > 0);
+  if (intensityModifiers.some(modifier => !(modifier.multiplier > 0))) {
+    throw new Error("Intensity multipliers must be greater than 0");
+  }
+
+  return { name, locale, emotionKeywords, intensityModifiers };
+}
+
+async function assertNameAvailable(ctx: MutationCtx, name: string, exceptId?: Id<"sentimentModels">) {
+  const existing = await ctx.db
+    .query("sentimentModels")
+    .withIndex("by_name", q => q.eq("name", name))
+    .first();
+  if (existing && existing._id !== exceptId) {
+    throw new Error(`A sentiment model named "${name}" already exists`);
+  }
+}
+
+function sameLocale(a?: string, b?: string) {
+  return (a?.toLowerCase() ?? "") === (b?.toLowerCase() ?? "");
+}
+
+// How well a model serves a locale: 2 for the exact locale, 1 for its
+// language ("de" serving "de-AT"), 0 for models without a locale, null when
+// it doesn't apply.
+function localeMatch(model: Doc<"sentimentModels">, locale?: string) {
+  if (!model.locale) return 0;
+  if (!locale) return null;
+  const wanted = locale.toLowerCase();
+  const served = model.locale.toLowerCase();
+  if (served === wanted) return 2;
+  if (served === wanted.split("-")[0]) return 1;
+  return null;
+}
+
+function bestFor(models: Array<Doc<"sentimentModels">>, locale?: string) {
+  let best: Doc<"sentimentModels"> | null = null;
+  let bestMatch = -1;
+  for (const model of models) {
+    const match = localeMatch(model, locale);
+    if (match !== null && match > bestMatch) {
+      best = model;
+      bestMatch = match;
+    }
+  }
+  return best;
+}
+
+// Only one model per locale may be active and one a candidate; the others
+// with that status go back to draft.
+async function demoteOthers(ctx: MutationCtx, model: Doc<"sentimentModels">, status: ModelStatus) {
+  if (status === "draft") return;
+  const models = await ctx.db.query("sentimentModels").collect();
+  for (const other of models) {
+    if (other._id !== model._id && statusOf(other) === status && sameLocale(other.locale, model.locale)) {
+      await ctx.db.patch(other._id, { status: "draft" });
+    }
+  }
+}
+
+// Analysis requests without a locale fall back to the models without one, so
+// one of those must stay active.
+async function assertFallbackRemains(ctx: MutationCtx, model: Doc<"sentimentModels">) {
+  if (statusOf(model) !== "active" || model.locale) return;
+  throw new Error("Make another model active for all locales first");
+}
+
+// Applies a new revision to a model and records its snapshot.
+async function saveRevision(
+  ctx: MutationCtx,
+  model: Doc<"sentimentModels">,
+  fields: ModelFields,
+  userId: Id<"users">,
+) {
+  const version = (model.version ?? 1) + 1;
+  const updatedAt = Date.now();
+
+  // Models seeded by initializeDefaults have no history yet; keep their
+  // original contents as version 1.
+  if (model.version === undefined) {
+    await ctx.db.insert("sentimentModelVersions", {
+      modelId: model._id,
+      version: 1,
+      name: model.name,
+      locale: model.locale,
+      emotionKeywords: model.emotionKeywords,
+      intensityModifiers: model.intensityModifiers,
+      createdAt: model._creationTime,
+      createdBy: userId,
+    });
+  }
+
+  await ctx.db.patch(model._id, { ...fields, version, updatedAt, updatedBy: userId });
+  await ctx.db.insert("sentimentModelVersions", {
+    modelId: model._id,
+    version,
+    ...fields,
+    createdAt: updatedAt,
+    createdBy: userId,
+  });
+
+  if (!sameLocale(model.locale, fields.locale)) {
+    await demoteOthers(ctx, (await ctx.db.get(model._id))!, statusOf(model));
+  }
+  return version;
+}
+
+async function getModelOrThrow(ctx: MutationCtx, modelId: Id<"sentimentModels">) {
+  const model = await ctx.db.get(modelId);
+  if (!model) {
+    throw new Error("Sentiment model not found");
+  }
+  return model;
+}
+
+// Runs a model and labels the result with the model's name and version.
+export function analyzeWith(text: string, model: Doc<"sentimentModels">): Sentiment {
+  return {
+    ...analyzeSentimentText(text, model),
+    model: model.name,
+    modelVersion: model.version ?? 1,
+  };
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const models = await ctx.db.query("sentimentModels").collect();
+    return models
+      .map(model => ({ ...model, status: statusOf(model), version: model.version ?? 1 }))
+      .sort((a, b) => (a.locale ?? "").localeCompare(b.locale ?? "") || a.name.localeCompare(b.name));
+  },
+});
+
+// New models start as drafts; use setStatus to try them as a candidate.
+export const create = mutation({
+  args: modelFields,
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const fields = normalizeFields(args);
+    await assertNameAvailable(ctx, fields.name);
+
+    const now = Date.now();
+    const modelId = await ctx.db.insert("sentimentModels", {
+      ...fields,
+      status: "draft",
+      version: 1,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+    await ctx.db.insert("sentimentModelVersions", {
+      modelId,
+      version: 1,
+      ...fields,
+      createdAt: now,
+      createdBy: userId,
+    });
+    return modelId;
+  },
+});
+
+export const update = mutation({
+  args: {
+    modelId: v.id("sentimentModels"),
+    ...modelFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const model = await getModelOrThrow(ctx, args.modelId);
+    const { modelId: _modelId, ...rest } = args;
+    const fields = normalizeFields(rest);
+    await assertNameAvailable(ctx, fields.name, model._id);
+    if (fields.locale) {
+      await assertFallbackRemains(ctx, model);
+    }
+
+    return await saveRevision(ctx, model, fields, userId);
+  },
+});
+
+// Making a model active promotes it for its locale, replacing the previous
+// active model; making it a candidate starts the shadow comparison.
+export const setStatus = mutation({
+  args: {
+    modelId: v.id("sentimentModels"),
+    status: statusValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const model = await getModelOrThrow(ctx, args.modelId);
+    if (statusOf(model) === args.status) return;
+    await assertFallbackRemains(ctx, model);
+
+    await demoteOthers(ctx, model, args.status);
+    await ctx.db.patch(model._id, { status: args.status, updatedAt: Date.now(), updatedBy: userId });
+  },
+});
+
+export const remove = mutation({
+  args: { modelId: v.id("sentimentModels") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const model = await getModelOrThrow(ctx, args.modelId);
+    if (statusOf(model) === "active") {
+      throw new Error("Active models can't be deleted; promote another model first");
+    }
+    await ctx.db.delete(model._id);
+    await ctx.scheduler.runAfter(0, internal.sentimentModels.deleteModelData, { modelId: model._id });
+  },
+});
+
+export const deleteModelData = internalMutation({
+  args: { modelId: v.id("sentimentModels") },
+  handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("sentimentModelVersions")
+      .withIndex("by_model_and_version", q => q.eq("modelId", args.modelId))
+      .take(200);
+    const comparisons = await ctx.db
+      .query("sentimentComparisons")
+      .withIndex("by_candidate_and_timestamp", q => q.eq("candidateModelId", args.modelId))
+      .take(200);
+    for (const doc of [...versions, ...comparisons]) {
+      await ctx.db.delete(doc._id);
+    }
+    if (versions.length === 200 || comparisons.length === 200) {
+      await ctx.scheduler.runAfter(0, internal.sentimentModels.deleteModelData, args);
+    }
+  },
+});
+
+export const listVersions = query({
+  args: { modelId: v.id("sentimentModels") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return await ctx.db
+      .query("sentimentModelVersions")
+      .withIndex("by_model_and_version", q => q.eq("modelId", args.modelId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Restoring a version saves its contents as a new revision, so history is
+// never rewritten.
+export const restoreVersion = mutation({
+  args: {
+    modelId: v.id("sentimentModels"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+    const model = await getModelOrThrow(ctx, args.modelId);
+    const snapshot = await ctx.db
+      .query("sentimentModelVersions")
+      .withIndex("by_model_and_version", q => q.eq("modelId", args.modelId).eq("version", args.version))
+      .first();
+    if (!snapshot) {
+      throw new Error(`Version ${args.version} not found`);
+    }
+    await assertNameAvailable(ctx, snapshot.name, model._id);
+    if (snapshot.locale) {
+      await assertFallbackRemains(ctx, model);
+    }
+
+    return await saveRevision(ctx, model, {
+      name: snapshot.name,
+      locale: snapshot.locale,
+      emotionKeywords: snapshot.emotionKeywords,
+      intensityModifiers: snapshot.intensityModifiers,
+    }, userId);
+  },
+});
+
+// The active model for a locale and the candidate running in shadow beside
+// it, if any.
+export const resolve = internalQuery({
+  args: { locale: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const models = await ctx.db.query("sentimentModels").collect();
+    return {
+      active: bestFor(models.filter(model => statusOf(model) === "active"), args.locale),
+      candidate: bestFor(models.filter(model => statusOf(model) === "candidate"), args.locale),
+    };
+  },
+});
+
+export const recordComparison = internalMutation({
+  args: {
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+    candidateModelId: v.id("sentimentModels"),
+    primary: sentimentValidator,
+    candidate: sentimentValidator,
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("sentimentComparisons", { ...args, timestamp: Date.now() });
+  },
+});
+
+// How a candidate's output differs from the active model's on the same
+// messages, and how both fare against the emotions users confirmed or
+// corrected.
+export const comparison = query({
+  args: { candidateModelId: v.id("sentimentModels") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const rows = await ctx.db
+      .query("sentimentComparisons")
+      .withIndex("by_candidate_and_timestamp", q => q.eq("candidateModelId", args.candidateModelId))
+      .order("desc")
+      .take(MAX_COMPARISONS);
+
+    const labels = new Set<string>();
+    const matrix: Record<string, Record<string, number>> = {};
+    let agreed = 0;
+    let valenceDelta = 0;
+    let labelled = 0;
+    let primaryCorrect = 0;
+    let candidateCorrect = 0;
+
+    for (const row of rows) {
+      labels.add(row.primary.emotion);
+      labels.add(row.candidate.emotion);
+      matrix[row.primary.emotion] ??= {};
+      matrix[row.primary.emotion][row.candidate.emotion] = (matrix[row.primary.emotion][row.candidate.emotion] ?? 0) + 1;
+      if (row.primary.emotion === row.candidate.emotion) agreed++;
+      valenceDelta += Math.abs(row.primary.valence - row.candidate.valence);
+
+      const feedback = await ctx.db
+        .query("messageFeedback")
+        .withIndex("by_message", q => q.eq("messageId", row.messageId))
+        .first();
+      if (feedback?.emotionLabel !== undefined) {
+        labelled++;
+        if (feedback.emotionLabel === row.primary.emotion) primaryCorrect++;
+        if (feedback.emotionLabel === row.candidate.emotion) candidateCorrect++;
+      }
+    }
+
+    return {
+      compared: rows.length,
+      agreement: rows.length > 0 ? agreed / rows.length : null,
+      meanValenceDelta: rows.length > 0 ? valenceDelta / rows.length : null,
+      labelled,
+      primaryAccuracy: labelled > 0 ? primaryCorrect / labelled : null,
+      candidateAccuracy: labelled > 0 ? candidateCorrect / labelled : null,
+      labels: [...labels].sort(),
+      matrix,
+    };
+  },
+});
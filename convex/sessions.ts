@@ -0,0 +1,185 @@
+import { query, mutation, internalAction, internalMutation, internalQuery, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { completeChat } from "./llm";
+import { redactMessages } from "./moderation";
+
+// Past conversations ("sessions") for the sidebar: listing, renaming, pinning
+// and deleting. Titles are set from the first user message as soon as it
+// arrives and then replaced by a generated one once the first reply is done.
+
+const MAX_TITLE_LENGTH = 60;
+
+// "what's the weather like in paris today?" -> "What's the weather like in paris"
+export function titleFromMessage(text: string) {
+  const words = text.trim().replace(/[.?!]+$/, "").split(/\s+/).filter(Boolean);
+  const title = words.slice(0, 6).join(" ");
+  if (!title) return "New conversation";
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+function cleanTitle(text: string) {
+  const title = text.split("\n")[0].trim().replace(/^["'“]+|["'”.]+$/g, "").trim();
+  return title.length > MAX_TITLE_LENGTH ? title.slice(0, MAX_TITLE_LENGTH).trimEnd() : title;
+}
+
+function dominantMood(conversation: Doc<"conversations">) {
+  const counts = conversation.moodCounts ?? {};
+  let mood: string | undefined;
+  for (const [emotion, count] of Object.entries(counts)) {
+    if (!mood || count > counts[mood]) mood = emotion;
+  }
+  return mood ?? conversation.context.userMood;
+}
+
+async function getOwnedSession(ctx: QueryCtx, sessionId: string) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const conversation = await ctx.db
+    .query("conversations")
+    .withIndex("by_user_and_session", q => q.eq("userId", userId).eq("sessionId", sessionId))
+    .first();
+  if (!conversation) {
+    throw new Error("Session not found");
+  }
+  return conversation;
+}
+
+// The user's sessions, pinned first and then most recent first.
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .collect();
+
+    const sessions = conversations.map(conversation => ({
+      sessionId: conversation.sessionId,
+      title: conversation.title ?? "New conversation",
+      pinned: conversation.pinned === true,
+      lastMessageAt: conversation.lastMessageAt ?? conversation._creationTime,
+      mood: dominantMood(conversation),
+      messageCount: conversation.messageCount ?? 0,
+    }));
+    return sessions.sort((a, b) =>
+      a.pinned !== b.pinned ? (a.pinned ? -1 : 1) : b.lastMessageAt - a.lastMessageAt
+    );
+  },
+});
+
+export const rename = mutation({
+  args: {
+    sessionId: v.string(),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getOwnedSession(ctx, args.sessionId);
+    const title = cleanTitle(args.title);
+    if (!title) {
+      throw new Error("Title cannot be empty");
+    }
+    await ctx.db.patch(conversation._id, { title, titleSource: "user" });
+  },
+});
+
+export const setPinned = mutation({
+  args: {
+    sessionId: v.string(),
+    pinned: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getOwnedSession(ctx, args.sessionId);
+    await ctx.db.patch(conversation._id, { pinned: args.pinned });
+  },
+});
+
+export const remove = mutation({
+  args: {
+    sessionId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await getOwnedSession(ctx, args.sessionId);
+    // Open safety escalations point at its messages.
+    if (conversation.flaggedForReview) {
+      throw new Error("This conversation is awaiting review and can't be deleted yet");
+    }
+
+    const reminders = await ctx.db
+      .query("reminders")
+      .withIndex("by_user_and_session", q => q.eq("userId", conversation.userId).eq("sessionId", args.sessionId))
+      .collect();
+    for (const reminder of reminders) {
+      await ctx.db.patch(reminder._id, { sessionId: undefined });
+    }
+    await ctx.db.delete(conversation._id);
+    await ctx.scheduler.runAfter(0, internal.messages.deleteForConversation, { conversationId: conversation._id });
+  },
+});
+
+export const getFirstExchange = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.titleSource === "user") return null;
+
+    const [question, answer] = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_and_timestamp", q => q.eq("conversationId", conversation._id))
+      .take(2);
+    if (!question || !answer || answer.streaming) return null;
+    return { question: question.content, answer: answer.content };
+  },
+});
+
+export const setGeneratedTitle = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    // The user may have renamed the session while the title was generated.
+    if (!conversation || conversation.titleSource === "user") return;
+    await ctx.db.patch(conversation._id, { title: args.title, titleSource: "auto" });
+  },
+});
+
+// Scheduled after the first reply of a session. Keeps the title taken from
+// the first message if no provider answers.
+export const generateTitle = internalAction({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const exchange = await ctx.runQuery(internal.sessions.getFirstExchange, args);
+    if (!exchange) return;
+    const rules = await ctx.runQuery(internal.moderation.activeRules);
+
+    try {
+      const result = await completeChat(redactMessages([
+        {
+          role: "system",
+          content: "Write a short title (at most six words) for a conversation that starts with the exchange below. Reply with the title only, without quotes.",
+        },
+        {
+          role: "user",
+          content: `User: ${exchange.question}\nAssistant: ${exchange.answer}`,
+        },
+      ], rules), { maxTokens: 20, temperature: 0.3 });
+
+      const title = cleanTitle(result.text);
+      if (title) {
+        await ctx.runMutation(internal.sessions.setGeneratedTitle, { conversationId: args.conversationId, title });
+      }
+    } catch (error) {
+      console.error("Title generation failed:", error);
+    }
+  },
+});
@@ -0,0 +1,79 @@
+import { ActionCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { DialogueFrame, Entity, Intent, Sentiment, SkillUI } from "../validators";
+import { remindersSkill } from "./reminders";
+import { weatherSkill } from "./weather";
+import { preferencesSkill } from "./preferences";
+import { moodSkill } from "./mood";
+import { memorySkill } from "./memory";
+import { musicSkill } from "./music";
+import type { Memory } from "../memories";
+
+// Skills give intents real behavior. The dialogue manager hands each turn to
+// the skill registered for its intent category, asking for any missing
+// required slots first, and processVoiceInput only falls back to the LLM when
+// no skill claims the turn.
+
+export type SkillInput = {
+  ctx: ActionCtx;
+  userId: Id<"users">;
+  sessionId: string;
+  conversationId: Id<"conversations">;
+  text: string;
+  intent: Intent;
+  sentiment: Sentiment;
+  // Conversation context as it was before this turn.
+  context?: Doc<"conversations">["context"];
+  // The frame this turn continues, when it answers a follow-up question.
+  frame?: DialogueFrame;
+  timezoneOffset?: number;
+  // What is remembered about the user, most recent first.
+  memories?: Memory[];
+};
+
+export type SkillResult = {
+  speech: string;
+  // Structured data the client can render next to the spoken reply, e.g. a
+  // forecast card.
+  ui?: SkillUI;
+};
+
+export type SlotRequirement = {
+  // Entity type that must be present in the intent.
+  type: string;
+  // Asked when the slot is missing; may refer to the slots already filled.
+  prompt: string | ((slots: Entity[]) => string);
+  // Whether a bare follow-up answer ("London") can fill the slot when no
+  // more specific entity is found in it.
+  freeText?: boolean;
+};
+
+export interface Skill {
+  name: string;
+  categories: string[];
+  requiredSlots: SlotRequirement[];
+  // Whether requiredSlots apply to this turn, e.g. not for "list my
+  // reminders". Defaults to always.
+  needsSlots?: (input: SkillInput) => boolean;
+  // Slots the entity extractor does not produce, such as a reminder's
+  // subject.
+  extractSlots?: (input: SkillInput) => Entity[];
+  // Returns null to pass the turn on to the LLM.
+  handle: (input: SkillInput) => Promise<SkillResult | null>;
+}
+
+const skills: Skill[] = [remindersSkill, weatherSkill, preferencesSkill, moodSkill, memorySkill, musicSkill];
+
+// Makes an additional skill available to processVoiceInput. Later
+// registrations win over earlier ones for the same category.
+export function registerSkill(skill: Skill) {
+  skills.unshift(skill);
+}
+
+export function findSkill(category: string): Skill | undefined {
+  return skills.find(skill => skill.categories.includes(category));
+}
+
+export function getSkill(name: string): Skill | undefined {
+  return skills.find(skill => skill.name === name);
+}
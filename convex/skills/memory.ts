@@ -0,0 +1,89 @@
+import { internal } from "../_generated/api";
+import { Memory, describeMemory, extractFacts } from "../memories";
+import { MemoryKind } from "../validators";
+import type { Skill, SkillInput, SkillResult } from "./index";
+
+// Voice commands for long-term memory: "what do you know about me",
+// "remember that my sister's birthday is in May", "forget where I live",
+// "forget that I like jazz", "forget everything about me". Corrections such
+// as "actually, my name is Sam" need no command: facts picked up from a turn
+// replace the old ones.
+
+// A command to remember something, not a question like "do you remember…".
+const REMEMBER = /(?:^|[,.!]\s*)(?:please\s+|can you\s+|could you\s+)?remember (?:that )?(.+)/i;
+const FORGET = /\bforget\b(.*)/i;
+const FORGET_ALL = /\b(?:everything|all)\b/i;
+
+const FORGET_KINDS: Array<[MemoryKind, RegExp]> = [
+  ["name", /\bmy name\b|\bwhat i'?m called\b/i],
+  ["location", /\bwhere i live\b|\bmy (?:location|city|address|home ?town)\b/i],
+  ["genre", /\bmy (?:music|genres?|favou?rite (?:music|genre))\b|\bwhat music i like\b/i],
+];
+
+function listOf(items: string[]) {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function recall(memories: Memory[]): SkillResult {
+  if (memories.length === 0) {
+    return { speech: "I don't know anything about you yet. You can tell me things like your name, where you live or what music you like." };
+  }
+  return { speech: `Here's what I remember: ${listOf(memories.map(describeMemory))}.` };
+}
+
+async function remember(input: SkillInput, text: string): Promise<SkillResult> {
+  const facts = extractFacts(text);
+  const saved = facts.length > 0 ? facts : [{ kind: "note" as const, value: text.replace(/[.!?]+$/, "").trim() }];
+  await input.ctx.runMutation(internal.memories.remember, {
+    userId: input.userId,
+    facts: saved,
+    source: "user",
+  });
+  return { speech: `Got it, I'll remember that ${listOf(saved.map(describeMemory))}.` };
+}
+
+async function forget(input: SkillInput, target: string): Promise<SkillResult> {
+  const memories = input.memories ?? [];
+  let forgotten: Memory[];
+  if (FORGET_ALL.test(target)) {
+    forgotten = await input.ctx.runMutation(internal.memories.forgetForUser, { userId: input.userId });
+    return { speech: forgotten.length > 0 ? "Done. I've forgotten everything I knew about you." : "I didn't have anything remembered about you." };
+  }
+
+  const kind = FORGET_KINDS.find(([, pattern]) => pattern.test(target))?.[0];
+  if (kind) {
+    forgotten = await input.ctx.runMutation(internal.memories.forgetForUser, { userId: input.userId, kind });
+  } else {
+    const lower = target.toLowerCase();
+    const matches = memories.filter(memory => lower.includes(memory.value.toLowerCase().replace(/ \(favorite [a-z ]+\)$/, "")));
+    forgotten = [];
+    for (const memory of matches) {
+      forgotten.push(...await input.ctx.runMutation(internal.memories.forgetForUser, {
+        userId: input.userId,
+        kind: memory.kind,
+        value: memory.value,
+      }));
+    }
+  }
+
+  if (forgotten.length === 0) {
+    return { speech: "I don't have that remembered. Ask me what I know about you to hear what I remember." };
+  }
+  return { speech: `Okay, I've forgotten that ${listOf(forgotten.map(describeMemory))}.` };
+}
+
+async function handle(input: SkillInput): Promise<SkillResult> {
+  const forgetting = input.text.match(FORGET);
+  if (forgetting) return await forget(input, forgetting[1]);
+  const remembering = input.text.match(REMEMBER);
+  if (remembering && !/^(?:about )?me\b/i.test(remembering[1])) return await remember(input, remembering[1]);
+  return recall(input.memories ?? []);
+}
+
+export const memorySkill: Skill = {
+  name: "memory",
+  categories: ["memory"],
+  requiredSlots: [],
+  handle,
+};
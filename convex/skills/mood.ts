@@ -0,0 +1,81 @@
+import { internal } from "../_generated/api";
+import type { MoodRange, MoodSummary } from "../mood";
+import type { Skill, SkillInput, SkillResult } from "./index";
+
+// "How have I been feeling this week?" Answers from the sentiment of the
+// user's own messages and attaches the timeline for the client to chart.
+
+const RANGE_CUES: Array<[MoodRange, RegExp]> = [
+  ["quarter", /\b(quarter|three months|3 months|past few months|last few months)\b/i],
+  ["month", /\b(month|30 days|past few weeks|last few weeks)\b/i],
+];
+
+const RANGE_NAMES: Record<MoodRange, string> = {
+  week: "the past week",
+  month: "the past month",
+  quarter: "the past three months",
+};
+
+// Emotions as they fit "you've mostly seemed ...".
+const EMOTION_WORDS: Record<string, string> = {
+  happy: "happy",
+  sad: "down",
+  angry: "frustrated",
+  fear: "worried",
+  surprise: "surprised",
+  neutral: "calm",
+};
+
+function describeValence(valence: number) {
+  if (valence >= 0.4) return "mostly positive";
+  if (valence >= 0.1) return "fairly positive";
+  if (valence > -0.1) return "fairly balanced";
+  if (valence > -0.4) return "a bit low";
+  return "quite low";
+}
+
+export function describeMood(summary: MoodSummary): string {
+  const period = RANGE_NAMES[summary.range];
+  if (summary.messages === 0 || summary.valence === null) {
+    return `We haven't talked much over ${period}, so I can't say yet. Tell me how you're doing?`;
+  }
+
+  const ranked = Object.entries(summary.emotions).sort(([, a], [, b]) => b - a);
+  const [topEmotion, topCount] = ranked[0];
+  const share = Math.round((topCount / summary.messages) * 100);
+  const parts = [
+    `Over ${period} your mood has been ${describeValence(summary.valence)}.`,
+    `You've mostly seemed ${EMOTION_WORDS[topEmotion] ?? topEmotion}, in about ${share}% of what you told me.`,
+  ];
+
+  const runnerUp = ranked.find(([emotion, count]) => emotion !== topEmotion && emotion !== "neutral" && count / summary.messages >= 0.15);
+  if (runnerUp) {
+    parts.push(`There were some ${EMOTION_WORDS[runnerUp[0]] ?? runnerUp[0]} moments too.`);
+  }
+  if (summary.trend === "improving") {
+    parts.push("It looks like things have been picking up lately.");
+  } else if (summary.trend === "declining") {
+    parts.push("It seems the last few days have been harder. Do you want to talk about it?");
+  }
+  return parts.join(" ");
+}
+
+async function handle(input: SkillInput): Promise<SkillResult> {
+  const range = RANGE_CUES.find(([, pattern]) => pattern.test(input.text))?.[0] ?? "week";
+  const summary = await input.ctx.runQuery(internal.mood.summaryForUser, {
+    userId: input.userId,
+    range,
+    timezoneOffset: input.timezoneOffset,
+  });
+  return {
+    speech: describeMood(summary),
+    ui: { kind: "mood", data: summary },
+  };
+}
+
+export const moodSkill: Skill = {
+  name: "mood",
+  categories: ["mood_check"],
+  requiredSlots: [],
+  handle,
+};
@@ -0,0 +1,48 @@
+import { Entity } from "../validators";
+import type { Skill, SkillInput, SkillResult } from "./index";
+
+// Finds music for a genre or artist: "play some jazz", "play something by
+// Nina Simone". There is no player, so the reply offers a search the client
+// can open. Without a genre or artist it falls back to the user's remembered
+// taste, and passes the turn on to the LLM when there is none.
+
+const SEARCH_URL = "https://music.youtube.com/search?q=";
+
+function entityValue(entities: Entity[], type: string) {
+  const entity = entities.find(e => e.type === type);
+  if (!entity) return undefined;
+  return typeof entity.normalizedValue === "string" ? entity.normalizedValue : entity.value;
+}
+
+// The most recently mentioned genre the user likes, when they didn't ask
+// for something specific.
+function extractSlots(input: SkillInput): Entity[] {
+  if (input.intent.entities.some(e => e.type === "genre" || e.type === "artist")) return [];
+  const genre = input.memories?.find(memory => memory.kind === "genre");
+  return genre ? [{ type: "genre", value: genre.value, normalizedValue: genre.value, confidence: 0.6 }] : [];
+}
+
+async function handle(input: SkillInput): Promise<SkillResult | null> {
+  const artist = entityValue(input.intent.entities, "artist");
+  const genre = entityValue(input.intent.entities, "genre");
+  const query = artist ?? (genre && `${genre} music`);
+  if (!query) return null;
+
+  const speech = artist
+    ? `Here's some music by ${artist}. Tap the card to start listening.`
+    : !input.text.toLowerCase().includes(genre!)
+      ? `Since you like ${genre}, here's some ${genre} to listen to. Tap the card to start it.`
+      : `Here's some ${genre} for you. Tap the card to start listening.`;
+  return {
+    speech,
+    ui: { kind: "music", data: { query, url: `${SEARCH_URL}${encodeURIComponent(query)}` } },
+  };
+}
+
+export const musicSkill: Skill = {
+  name: "music",
+  categories: ["music"],
+  requiredSlots: [],
+  extractSlots,
+  handle,
+};
@@ -0,0 +1,73 @@
+import { internal } from "../_generated/api";
+import { ResponsePreferences } from "../validators";
+import type { Skill, SkillInput, SkillResult } from "./index";
+
+// Voice overrides for how the assistant replies in this conversation: "be
+// more brief", "sound more professional", "you can be casual". The user's
+// saved defaults are left alone.
+
+const VERBOSITY_CUES: Array<[ResponsePreferences["verbosity"], RegExp]> = [
+  ["brief", /\b(brief|briefer|short|shorter|concise|quick|quicker|less detail|to the point)\b/i],
+  ["detailed", /\b(detail|detailed|details|longer|thorough|elaborate|explain more|more depth)\b/i],
+];
+
+const STYLE_CUES: Array<[ResponsePreferences["responseStyle"], RegExp]> = [
+  ["professional", /\b(professional|formal|businesslike|work mode)\b/i],
+  ["casual", /\b(casual|relaxed|informal|chill|laid back)\b/i],
+  ["empathetic", /\b(empathetic|warm|warmer|gentle|gentler|supportive|caring|kind|kinder)\b/i],
+];
+
+const CONFIRMATIONS = {
+  brief: {
+    empathetic: "Of course, I'll keep my answers short.",
+    professional: "Understood. I'll keep responses brief.",
+    casual: "Sure thing, short and sweet from now on.",
+  },
+  detailed: {
+    empathetic: "Of course, I'll take a bit more time to explain things.",
+    professional: "Understood. I'll provide more detailed responses.",
+    casual: "You got it, I'll go into more detail.",
+  },
+};
+
+function findCue<T>(text: string, cues: Array<[T, RegExp]>): T | undefined {
+  return cues.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+async function handle(input: SkillInput): Promise<SkillResult> {
+  const current = input.context?.preferences ??
+    await input.ctx.runQuery(internal.preferences.getForUser, { userId: input.userId });
+  const verbosity = findCue(input.text, VERBOSITY_CUES);
+  const responseStyle = findCue(input.text, STYLE_CUES);
+
+  if (!verbosity && !responseStyle) {
+    return {
+      speech: "You can ask me to be more brief or more detailed, or to sound professional, casual or empathetic.",
+    };
+  }
+
+  const preferences: ResponsePreferences = {
+    responseStyle: responseStyle ?? current.responseStyle,
+    verbosity: verbosity ?? current.verbosity,
+  };
+  await input.ctx.runMutation(internal.preferences.setForConversation, {
+    conversationId: input.conversationId,
+    preferences,
+  });
+
+  const speech = responseStyle && !verbosity
+    ? {
+        empathetic: "Of course. I'll be gentle and pay attention to how you're feeling.",
+        professional: "Understood. I'll keep a professional tone.",
+        casual: "Cool, I'll keep it casual.",
+      }[preferences.responseStyle]
+    : CONFIRMATIONS[preferences.verbosity][preferences.responseStyle];
+  return { speech };
+}
+
+export const preferencesSkill: Skill = {
+  name: "preferences",
+  categories: ["preferences"],
+  requiredSlots: [],
+  handle,
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { detectIntentIn } from "../nlu";
+import { DEFAULT_INTENTS } from "../nluDefaults";
+import type { SkillInput } from "./index";
+import { describeTime, reminderCommand, remindersSkill } from "./reminders";
+
+// Monday 2025-03-10 10:00 UTC.
+const NOW = Date.UTC(2025, 2, 10, 10, 0);
+
+// Slot handling only reads the text, intent and frame of a turn.
+function turn(text: string, frame?: SkillInput["frame"]) {
+  const intent = detectIntentIn(text, DEFAULT_INTENTS, { now: NOW });
+  return { text, intent, frame } as Partial<SkillInput> as SkillInput;
+}
+
+describe("reminderCommand", () => {
+  it.each([
+    ["remind me to call mom at 5", "create"],
+    ["remind me to clear the gutters tomorrow", "create"],
+    ["remind me to cancel my gym membership at 5", "create"],
+    ["set a reminder to delete old photos on friday", "create"],
+    ["remind me what to pack tonight", "create"],
+    ["cancel my reminder to call mom", "cancel"],
+    ["delete the 5pm reminder", "cancel"],
+    ["snooze that for ten minutes", "snooze"],
+    ["what reminders do I have", "list"],
+    ["show my upcoming reminders", "list"],
+  ])("reads %j as %s", (text, command) => {
+    expect(reminderCommand(text)).toBe(command);
+  });
+});
+
+describe("remindersSkill", () => {
+  it("asks for slots when creating, whatever the subject says", () => {
+    expect(remindersSkill.needsSlots?.(turn("remind me to clear the gutters tomorrow"))).toBe(true);
+    expect(remindersSkill.needsSlots?.(turn("remind me to cancel my gym membership at 5"))).toBe(true);
+    expect(remindersSkill.needsSlots?.(turn("cancel my reminder to call mom"))).toBe(false);
+    expect(remindersSkill.needsSlots?.(turn("what reminders do I have"))).toBe(false);
+  });
+
+  it("always asks for slots when answering a follow-up", () => {
+    const frame = { skill: "reminders", intent: "reminder", slots: [], missing: ["subject"], attempts: 1, expiresAt: NOW + 60000 };
+    expect(remindersSkill.needsSlots?.(turn("cancel my gym membership", frame))).toBe(true);
+  });
+
+  it("takes the subject after the command, without the time", () => {
+    expect(remindersSkill.extractSlots?.(turn("remind me to clear the gutters tomorrow"))).toEqual([
+      { type: "subject", value: "clear the gutters", confidence: 0.8 },
+    ]);
+    expect(remindersSkill.extractSlots?.(turn("remind me to cancel my gym membership at 5pm please"))).toEqual([
+      { type: "subject", value: "cancel my gym membership", confidence: 0.8 },
+    ]);
+  });
+
+  it("finds no subject in a bare command", () => {
+    expect(remindersSkill.extractSlots?.(turn("remind me at 5pm"))).toEqual([]);
+  });
+});
+
+describe("describeTime", () => {
+  it("speaks near times in minutes", () => {
+    expect(describeTime(NOW + 20 * 60000, NOW)).toBe("in 20 minutes");
+    expect(describeTime(NOW + 30000, NOW)).toBe("in a minute");
+  });
+
+  it("speaks later times with the day in the user's timezone", () => {
+    expect(describeTime(Date.UTC(2025, 2, 10, 17, 30), NOW)).toBe("at 5:30 PM today");
+    expect(describeTime(Date.UTC(2025, 2, 11, 9), NOW)).toBe("at 9 AM tomorrow");
+    expect(describeTime(Date.UTC(2025, 2, 14, 12), NOW)).toBe("at 12 PM on Friday");
+    expect(describeTime(Date.UTC(2025, 2, 11, 1), NOW, 300)).toBe("at 8 PM today");
+  });
+});
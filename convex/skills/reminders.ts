@@ -0,0 +1,207 @@
+import { Doc } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { Intent } from "../validators";
+import { DEFAULT_SNOOZE_MS } from "../reminders";
+import type { Skill, SkillInput, SkillResult } from "./index";
+
+// Creates, lists, cancels and snoozes reminders by voice. A reminder needs a
+// subject (free text after "remind me to") and a time.
+
+// Fired reminders younger than this can still be snoozed by voice.
+const SNOOZE_WINDOW_MS = 60 * 60 * 1000;
+// A spoken time matches a reminder due within this distance of it.
+const TIME_MATCH_WINDOW_MS = 60 * 60 * 1000;
+
+// Speaks a timestamp relative to now in the user's timezone, e.g.
+// "in 20 minutes" or "at 5:30 PM tomorrow".
+export function describeTime(timestamp: number, now: number, timezoneOffset = 0) {
+  const minutesAway = Math.round((timestamp - now) / 60000);
+  if (minutesAway >= 0 && minutesAway < 60) {
+    return minutesAway <= 1 ? "in a minute" : `in ${minutesAway} minutes`;
+  }
+
+  const local = new Date(timestamp - timezoneOffset * 60000);
+  const today = new Date(now - timezoneOffset * 60000);
+  const dayDiff = Math.round(
+    (Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) -
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())) / 86400000
+  );
+
+  const hours = local.getUTCHours();
+  const minutes = local.getUTCMinutes();
+  const clock = `${hours % 12 === 0 ? 12 : hours % 12}${minutes ? `:${String(minutes).padStart(2, "0")}` : ""} ${hours < 12 ? "AM" : "PM"}`;
+
+  const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  const months = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+  const day = dayDiff === 0 ? "today"
+    : dayDiff === 1 ? "tomorrow"
+    : dayDiff > 1 && dayDiff < 7 ? `on ${weekdays[local.getUTCDay()]}`
+    : `on ${months[local.getUTCMonth()]} ${local.getUTCDate()}`;
+  return `at ${clock} ${day}`;
+}
+
+// Turns "call my mom" into "call your mom" for the spoken confirmation.
+function toSecondPerson(subject: string) {
+  return subject
+    .replace(/\bmy\b/gi, "your")
+    .replace(/\bme\b/gi, "you")
+    .replace(/\bI\b/g, "you")
+    .replace(/\bmyself\b/gi, "yourself");
+}
+
+function removeSpans(text: string, spans: Array<{ start?: number; end?: number }>) {
+  let result = text;
+  for (const span of [...spans].sort((a, b) => (b.start ?? 0) - (a.start ?? 0))) {
+    if (span.start === undefined || span.end === undefined) continue;
+    result = result.slice(0, span.start) + " " + result.slice(span.end);
+  }
+  return result;
+}
+
+function cleanSubject(raw: string) {
+  const subject = raw
+    .replace(/\s+/g, " ")
+    .replace(/^\s*(?:me\s+)?(?:to|about|that|of|for)\s+/i, "")
+    .replace(/\s*(?:please|thanks|thank you)?[\s.!?,]*$/i, "")
+    .trim();
+  return subject.length > 0 ? subject : undefined;
+}
+
+// What the user wants reminding about, with any time expression removed.
+function extractSubject(text: string, intent: Intent, isFollowUp: boolean) {
+  const withoutTimes = removeSpans(text, intent.entities.filter(e => e.type === "time" || e.type === "duration"));
+  const match = withoutTimes.match(/\b(?:remind me|set a reminder|reminder|don't forget|do not forget)\b(.*)$/i);
+  if (match) return cleanSubject(match[1]);
+  return isFollowUp ? cleanSubject(withoutTimes) : undefined;
+}
+
+function extractDueAt(intent: Intent, now: number) {
+  const time = intent.entities.find(e => e.type === "time" && typeof e.normalizedValue === "number");
+  const dueAt = time?.normalizedValue as number | undefined;
+  return dueAt !== undefined && dueAt > now ? dueAt : undefined;
+}
+
+function pickByTimeOrSubject(reminders: Doc<"reminders">[], text: string, intent: Intent) {
+  const time = intent.entities.find(e => e.type === "time" && typeof e.normalizedValue === "number");
+  if (time) {
+    const target = time.normalizedValue as number;
+    const closest = [...reminders].sort((a, b) => Math.abs(a.dueAt - target) - Math.abs(b.dueAt - target))[0];
+    if (closest && Math.abs(closest.dueAt - target) <= TIME_MATCH_WINDOW_MS) return closest;
+  }
+
+  const words = new Set(text.toLowerCase().match(/[a-z0-9']+/g) ?? []);
+  const bySubject = reminders.filter(reminder =>
+    (reminder.subject.toLowerCase().match(/[a-z0-9']+/g) ?? []).some(word => word.length > 3 && words.has(word))
+  );
+  if (bySubject.length === 1) return bySubject[0];
+
+  return reminders.length === 1 && !time ? reminders[0] : undefined;
+}
+
+const CANCEL_COMMAND = /\b(cancel|delete|remove|clear)\b/i;
+const LIST_COMMAND = /\b(list|show|what|which|any|upcoming|do i have)\b/i;
+const SNOOZE_COMMAND = /\bsnooze\b/i;
+// "Remind me to clear the gutters" creates a reminder whatever its subject
+// says.
+const CREATE_COMMAND = /\b(remind me|set a reminder)\b/i;
+
+export type ReminderCommand = "create" | "list" | "cancel" | "snooze";
+
+// What a reminder turn asks for, before any follow-up questions.
+export function reminderCommand(text: string): ReminderCommand {
+  if (CREATE_COMMAND.test(text)) return "create";
+  if (SNOOZE_COMMAND.test(text)) return "snooze";
+  if (CANCEL_COMMAND.test(text)) return "cancel";
+  if (LIST_COMMAND.test(text)) return "list";
+  return "create";
+}
+
+const reminderCard = (reminders: Array<{ subject: string; dueAt: number }>) => ({
+  kind: "reminders",
+  data: { reminders: reminders.map(r => ({ subject: r.subject, dueAt: r.dueAt })) },
+});
+
+// Handles a turn that creates, lists, cancels or snoozes reminders. Missing
+// subjects and times are asked for by the dialogue manager before a create
+// reaches this point.
+async function handle(input: SkillInput): Promise<SkillResult> {
+  const { ctx, userId, text, intent } = input;
+  const now = Date.now();
+  const say = (timestamp: number) => describeTime(timestamp, now, input.timezoneOffset);
+
+  const command = input.frame ? "create" : reminderCommand(text);
+  if (command === "snooze") {
+    const fired = await ctx.runQuery(internal.reminders.listForUser, { userId, status: "fired" });
+    const latest = fired
+      .filter(reminder => reminder.firedAt !== undefined && now - reminder.firedAt <= SNOOZE_WINDOW_MS)
+      .sort((a, b) => (b.firedAt ?? 0) - (a.firedAt ?? 0))[0];
+    if (!latest) return { speech: "There's no recent reminder to snooze." };
+
+    const duration = intent.entities.find(e => e.type === "duration" && typeof e.normalizedValue === "number");
+    const dueAt = duration ? now + (duration.normalizedValue as number) : extractDueAt(intent, now) ?? now + DEFAULT_SNOOZE_MS;
+    await ctx.runMutation(internal.reminders.snoozeForUser, { userId, reminderId: latest._id, dueAt });
+    return {
+      speech: `Snoozed. I'll remind you to ${toSecondPerson(latest.subject)} ${say(dueAt)}.`,
+      ui: reminderCard([{ ...latest, dueAt }]),
+    };
+  }
+
+  if (command === "cancel") {
+    const upcoming = await ctx.runQuery(internal.reminders.listForUser, { userId, status: "scheduled" });
+    if (upcoming.length === 0) return { speech: "You don't have any upcoming reminders." };
+    const target = pickByTimeOrSubject(upcoming, text, intent);
+    if (!target) {
+      const options = upcoming.slice(0, 3).map(r => `${toSecondPerson(r.subject)} ${say(r.dueAt)}`).join("; ");
+      return { speech: `Which reminder should I cancel? You have: ${options}.`, ui: reminderCard(upcoming) };
+    }
+    await ctx.runMutation(internal.reminders.cancelForUser, { userId, reminderId: target._id });
+    return { speech: `Done, I've cancelled your reminder to ${toSecondPerson(target.subject)} ${say(target.dueAt)}.` };
+  }
+
+  if (command === "list") {
+    const upcoming = await ctx.runQuery(internal.reminders.listForUser, { userId, status: "scheduled" });
+    if (upcoming.length === 0) return { speech: "You don't have any upcoming reminders." };
+    const items = upcoming.map(r => `${toSecondPerson(r.subject)} ${say(r.dueAt)}`);
+    return {
+      speech: upcoming.length === 1
+        ? `You have one reminder: ${items[0]}.`
+        : `You have ${upcoming.length} reminders: ${items.join("; ")}.`,
+      ui: reminderCard(upcoming),
+    };
+  }
+
+  const subject = intent.entities.find(e => e.type === "subject")?.value;
+  if (!subject) return { speech: "Sorry, I didn't catch what to remind you about. Try again with something like \"remind me to call mom at 5\"." };
+  const dueAt = extractDueAt(intent, now);
+  if (!dueAt) {
+    return { speech: "That time has already passed. Try asking again with a time in the future." };
+  }
+
+  await ctx.runMutation(internal.reminders.create, { userId, sessionId: input.sessionId, subject, dueAt });
+  return {
+    speech: `Okay, I'll remind you to ${toSecondPerson(subject)} ${say(dueAt)}.`,
+    ui: reminderCard([{ subject, dueAt }]),
+  };
+}
+
+export const remindersSkill: Skill = {
+  name: "reminders",
+  categories: ["reminder"],
+  requiredSlots: [
+    { type: "subject", prompt: "Sure. What should I remind you about?", freeText: true },
+    {
+      type: "time",
+      prompt: slots => {
+        const subject = slots.find(slot => slot.type === "subject");
+        return subject ? `When should I remind you to ${toSecondPerson(subject.value)}?` : "When should I remind you?";
+      },
+    },
+  ],
+  // Listing, cancelling and snoozing work on existing reminders.
+  needsSlots: input => input.frame !== undefined || reminderCommand(input.text) === "create",
+  extractSlots: input => {
+    const subject = extractSubject(input.text, input.intent, input.frame !== undefined);
+    return subject ? [{ type: "subject", value: subject, confidence: 0.8 }] : [];
+  },
+  handle,
+};
@@ -0,0 +1,85 @@
+import { getForecast, WeatherError } from "../weather";
+import { Entity, Forecast } from "../validators";
+import type { Skill, SkillInput, SkillResult } from "./index";
+
+// Answers weather questions for the location slot, for today or for a day
+// named by a time entity ("tomorrow", "on Friday"). Without a location it
+// uses the city the user is remembered to live in, before asking.
+
+type DailyForecast = Forecast["daily"][number];
+
+// YYYY-MM-DD of a timestamp in the user's timezone.
+function localDate(timestamp: number, timezoneOffset = 0) {
+  return new Date(timestamp - timezoneOffset * 60000).toISOString().slice(0, 10);
+}
+
+function describeDay(day: DailyForecast, label: string, place: string) {
+  const rain = day.precipitationChance !== undefined && day.precipitationChance >= 40
+    ? ` There's a ${day.precipitationChance}% chance of rain.`
+    : "";
+  return `${label} in ${place} expect ${day.condition}, with a high of ${day.high} and a low of ${day.low} degrees.${rain}`;
+}
+
+function summarize(forecast: Forecast, requestedDate: string | undefined, input: SkillInput) {
+  const place = forecast.location.split(",")[0];
+  const today = localDate(Date.now(), input.timezoneOffset);
+
+  if (requestedDate && requestedDate !== today) {
+    const day = forecast.daily.find(d => d.date === requestedDate);
+    if (!day) {
+      return `I only have the forecast for the next ${forecast.daily.length} days in ${place}.`;
+    }
+    const tomorrow = localDate(Date.now() + 86400000, input.timezoneOffset);
+    const label = day.date === tomorrow
+      ? "Tomorrow"
+      : `On ${new Date(`${day.date}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" })}`;
+    return describeDay(day, label, place);
+  }
+
+  const { current } = forecast;
+  const todayForecast = forecast.daily[0];
+  let speech = `Right now in ${place} it's ${current.temperature} degrees and ${current.condition}`;
+  if (todayForecast) {
+    speech += `, with a high of ${todayForecast.high} and a low of ${todayForecast.low}`;
+  }
+  speech += ".";
+  if (todayForecast?.precipitationChance !== undefined && todayForecast.precipitationChance >= 40) {
+    speech += ` There's a ${todayForecast.precipitationChance}% chance of rain today.`;
+  }
+  return speech;
+}
+
+function extractSlots(input: SkillInput): Entity[] {
+  const home = input.memories?.find(memory => memory.kind === "location");
+  return home ? [{ type: "location", value: home.value, normalizedValue: home.value, confidence: 0.6 }] : [];
+}
+
+async function handle(input: SkillInput): Promise<SkillResult> {
+  const slot = input.intent.entities.find(e => e.type === "location")!;
+  const location = typeof slot.normalizedValue === "string" ? slot.normalizedValue : slot.value;
+
+  const time = input.intent.entities.find(e => e.type === "time" && typeof e.normalizedValue === "number");
+  const requestedDate = time ? localDate(time.normalizedValue as number, input.timezoneOffset) : undefined;
+
+  try {
+    const { forecast } = await getForecast(input.ctx, location);
+    return {
+      speech: summarize(forecast, requestedDate, input),
+      ui: { kind: "forecast", data: forecast },
+    };
+  } catch (error) {
+    if (error instanceof WeatherError && error.code === "not_found") {
+      return { speech: `I couldn't find a place called ${location}.` };
+    }
+    console.error("Error fetching weather:", error);
+    return { speech: `Sorry, I couldn't get the weather for ${location} right now.` };
+  }
+}
+
+export const weatherSkill: Skill = {
+  name: "weather",
+  categories: ["weather"],
+  requiredSlots: [{ type: "location", prompt: "Which city would you like the weather for?", freeText: true }],
+  extractSlots,
+  handle,
+};
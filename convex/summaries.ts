@@ -0,0 +1,150 @@
+import { query, internalAction, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { completeChat } from "./llm";
+import { redactMessages } from "./moderation";
+
+// Rolling conversation summaries, so long sessions stay in context. Prompts
+// carry the conversation's summary followed by the messages after it. Once
+// more than SUMMARY_TRIGGER messages have piled up after the summary,
+// finishTurn schedules summarize, which folds all but the newest KEEP_RECENT
+// of them into the summary.
+
+// Most unsummarized messages a conversation should have; prompts include up
+// to this many recent messages.
+export const SUMMARY_TRIGGER = 10;
+
+// Messages left out of each summary run, so the latest exchanges stay
+// verbatim.
+const KEEP_RECENT = 4;
+
+// Most messages folded into the summary in one run.
+const MAX_BATCH = 50;
+
+// A scheduled summary that hasn't finished after this long can be scheduled
+// again.
+const SCHEDULE_TIMEOUT_MS = 2 * 60 * 1000;
+
+const SUMMARY_PROMPT = "You keep a running summary of a conversation between a user and a voice assistant. Update the summary with the new messages. Keep names, facts, requests, decisions, open questions and how the user is feeling; leave out greetings and small talk. Write at most 120 words of plain prose in the third person. Reply with the summary only.";
+
+// Schedules summarize when enough messages have piled up after the
+// conversation's summary.
+export async function scheduleSummaryIfNeeded(ctx: MutationCtx, conversationId: Id<"conversations">) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) return;
+  if (conversation.summaryScheduledAt && Date.now() - conversation.summaryScheduledAt < SCHEDULE_TIMEOUT_MS) return;
+
+  const tail = await ctx.db
+    .query("messages")
+    .withIndex("by_conversation_and_timestamp", q =>
+      q.eq("conversationId", conversationId).gt("timestamp", conversation.summarizedThrough ?? -1))
+    .take(SUMMARY_TRIGGER + 1);
+  if (tail.length <= SUMMARY_TRIGGER) return;
+
+  await ctx.db.patch(conversationId, { summaryScheduledAt: Date.now() });
+  await ctx.scheduler.runAfter(0, internal.summaries.summarize, { conversationId });
+}
+
+// The current summary and the messages to fold into it, oldest first.
+export const pending = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return null;
+    const tail = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_and_timestamp", q =>
+        q.eq("conversationId", args.conversationId).gt("timestamp", conversation.summarizedThrough ?? -1))
+      .take(MAX_BATCH + KEEP_RECENT);
+    return {
+      summary: conversation.summary,
+      messages: tail
+        .slice(0, Math.max(0, tail.length - KEEP_RECENT))
+        .filter(message => !message.streaming)
+        .map(message => ({ type: message.type, content: message.content, timestamp: message.timestamp })),
+    };
+  },
+});
+
+// Saves a new summary, unless a later one was saved first, and clears the
+// scheduled flag.
+export const save = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    summary: v.optional(v.object({
+      text: v.string(),
+      through: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return;
+    if (args.summary && args.summary.through > (conversation.summarizedThrough ?? -1)) {
+      await ctx.db.patch(conversation._id, {
+        summary: args.summary.text,
+        summarizedThrough: args.summary.through,
+        summaryUpdatedAt: Date.now(),
+        summaryScheduledAt: undefined,
+      });
+    } else {
+      await ctx.db.patch(conversation._id, { summaryScheduledAt: undefined });
+    }
+  },
+});
+
+export const summarize = internalAction({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const work = await ctx.runQuery(internal.summaries.pending, args);
+    const last = work?.messages[work.messages.length - 1];
+    if (!work || !last) {
+      await ctx.runMutation(internal.summaries.save, args);
+      return;
+    }
+
+    const transcript = work.messages
+      .filter(message => message.content)
+      .map(message => `${message.type === "user" ? "User" : "Assistant"}: ${message.content}`)
+      .join("\n");
+    const rules = await ctx.runQuery(internal.moderation.activeRules);
+
+    try {
+      const result = await completeChat(redactMessages([
+        { role: "system", content: SUMMARY_PROMPT },
+        {
+          role: "user",
+          content: `Summary so far: ${work.summary ?? "(none yet)"}\n\nNew messages:\n${transcript}`,
+        },
+      ], rules), { maxTokens: 250, temperature: 0.3 });
+
+      const text = result.text.trim();
+      await ctx.runMutation(internal.summaries.save, {
+        conversationId: args.conversationId,
+        summary: text ? { text, through: last.timestamp } : undefined,
+      });
+    } catch (error) {
+      console.error("Conversation summary failed:", error);
+      await ctx.runMutation(internal.summaries.save, args);
+    }
+  },
+});
+
+// The summary of a session's earlier messages, for the conversation header.
+export const forSession = query({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    const conversation = await ctx.db
+      .query("conversations")
+      .withIndex("by_user_and_session", q => q.eq("userId", userId).eq("sessionId", args.sessionId))
+      .first();
+    if (!conversation?.summary) return null;
+    return {
+      text: conversation.summary,
+      updatedAt: conversation.summaryUpdatedAt,
+    };
+  },
+});
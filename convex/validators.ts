@@ -0,0 +1,152 @@
+import { Infer, v } from "convex/values";
+
+// Validators for the NLU results stored on messages and passed between
+// functions.
+
+export const sentimentValidator = v.object({
+  emotion: v.string(),
+  confidence: v.number(),
+  valence: v.number(), // -1 to 1 (negative to positive)
+  arousal: v.number(), // 0 to 1 (calm to excited)
+  // The sentiment model and version that produced the result.
+  model: v.optional(v.string()),
+  modelVersion: v.optional(v.number()),
+});
+
+export const entityValidator = v.object({
+  type: v.string(),
+  value: v.string(),
+  confidence: v.number(),
+  // Resolved slot value: a timestamp for times, milliseconds for durations,
+  // a number for numbers, a canonical spelling otherwise.
+  normalizedValue: v.optional(v.union(v.string(), v.number())),
+  // Character span of the entity in the user's text.
+  start: v.optional(v.number()),
+  end: v.optional(v.number()),
+});
+
+export const intentValidator = v.object({
+  category: v.string(),
+  confidence: v.number(),
+  entities: v.array(entityValidator),
+});
+
+// How replies are phrased: the persona of the prompt and the length budget.
+export const preferencesValidator = v.object({
+  responseStyle: v.union(v.literal("empathetic"), v.literal("professional"), v.literal("casual")),
+  verbosity: v.union(v.literal("brief"), v.literal("detailed")),
+});
+
+// The task a multi-turn exchange is working on: the skill and intent it
+// belongs to, the slots filled so far and the ones still being asked for.
+export const dialogueFrameValidator = v.object({
+  skill: v.string(),
+  intent: v.string(),
+  slots: v.array(entityValidator),
+  missing: v.array(v.string()),
+  // How many times the first missing slot has been asked for.
+  attempts: v.number(),
+  expiresAt: v.number(),
+});
+
+// Structured payload a skill attaches to its reply, rendered by the client
+// according to `kind`.
+export const skillUIValidator = v.object({
+  kind: v.string(),
+  data: v.any(),
+});
+
+// Weather as returned by the weather providers. Temperatures are in °C and
+// wind speed in km/h; daily dates are YYYY-MM-DD in the location's timezone.
+export const forecastValidator = v.object({
+  location: v.string(),
+  current: v.object({
+    temperature: v.number(),
+    condition: v.string(),
+    windSpeed: v.number(),
+    humidity: v.optional(v.number()),
+  }),
+  daily: v.array(v.object({
+    date: v.string(),
+    high: v.number(),
+    low: v.number(),
+    condition: v.string(),
+    precipitationChance: v.optional(v.number()),
+  })),
+});
+
+// Per-turn metrics recorded by processVoiceInput. Durations are in
+// milliseconds. Source "partial" is a streamed reply cut short by a provider
+// failure; "interrupted" a streamed reply stopped because the user talked
+// over it; "fallback" a canned reply used when no provider answered;
+// "safety" the crisis template used when the safety layer escalated;
+// "moderation" a canned reply used because a moderation rule blocked the
+// user's message or the generated reply.
+export const turnMetricsValidator = v.object({
+  stages: v.object({
+    sentiment: v.number(),
+    intent: v.number(),
+    history: v.number(),
+    // Skill handling or LLM generation, whichever produced the reply.
+    response: v.number(),
+    save: v.number(),
+    total: v.number(),
+  }),
+  timeToFirstAudio: v.number(),
+  firstTokenMs: v.optional(v.number()),
+  source: v.union(v.literal("skill"), v.literal("llm"), v.literal("partial"), v.literal("interrupted"), v.literal("fallback"), v.literal("safety"), v.literal("moderation")),
+  skill: v.optional(v.string()),
+  provider: v.optional(v.string()),
+  model: v.optional(v.string()),
+  // Provider attempts that failed during the turn, and whether the reply
+  // came from a provider other than the first one tried.
+  failedAttempts: v.number(),
+  providerFailover: v.boolean(),
+});
+
+// What moderation changed about a message: on user messages the personal
+// data redacted before it went to a provider and the injection rules that
+// matched; on assistant messages the blocklist matches removed from the
+// reply. `blocked` means the message was answered, or replaced, with a
+// canned reply instead.
+export const moderationRecordValidator = v.object({
+  redactions: v.array(v.object({ rule: v.string(), count: v.number() })),
+  flagged: v.array(v.string()),
+  blocked: v.boolean(),
+});
+
+// How the response router chose to answer a turn, see
+// convex/responseRouter.ts. `reason` is a human-readable explanation for
+// debugging.
+export const responseRouteValidator = v.union(v.literal("qa"), v.literal("skill"), v.literal("support"), v.literal("smalltalk"));
+export const routingValidator = v.object({
+  route: responseRouteValidator,
+  reason: v.string(),
+});
+
+// A long-term fact about a user, see convex/memories.ts.
+export const memoryKindValidator = v.union(v.literal("name"), v.literal("location"), v.literal("genre"), v.literal("like"), v.literal("note"));
+export const memoryFactValidator = v.object({
+  kind: memoryKindValidator,
+  value: v.string(),
+});
+
+// What the safety layer found in a turn it escalated.
+export const riskLevelValidator = v.union(v.literal("elevated"), v.literal("high"));
+export const riskCategoryValidator = v.union(v.literal("suicide"), v.literal("self_harm"), v.literal("abuse"));
+
+export type Sentiment = Infer<typeof sentimentValidator>;
+export type Entity = Infer<typeof entityValidator>;
+export type Intent = Infer<typeof intentValidator>;
+export type SkillUI = Infer<typeof skillUIValidator>;
+export type Forecast = Infer<typeof forecastValidator>;
+export type DialogueFrame = Infer<typeof dialogueFrameValidator>;
+export type ResponsePreferences = Infer<typeof preferencesValidator>;
+export type TurnMetrics = Infer<typeof turnMetricsValidator>;
+export type RiskEscalationLevel = Infer<typeof riskLevelValidator>;
+export type RiskCategory = Infer<typeof riskCategoryValidator>;
+export type ModerationRecord = Infer<typeof moderationRecordValidator>;
+export type ResponseRoute = Infer<typeof responseRouteValidator>;
+export type Routing = Infer<typeof routingValidator>;
+export type MemoryKind = Infer<typeof memoryKindValidator>;
+export type MemoryFact = Infer<typeof memoryFactValidator>;
@@ -1,365 +1,302 @@
-import { query, mutation, action } from "./_generated/server";
+import { query, mutation, action, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { api, internal } from "./_generated/api";
+import { ChatMessage, LLMAttempt, LLMError, StreamResult, StreamStopped, completeChat, streamChat } from "./llm";
+import { IntentDetection, detectIntentIn } from "./nlu";
+import { analyzeWith } from "./sentimentModels";
+import { DEFAULT_INTENTS, DEFAULT_SENTIMENT_MODEL } from "./nluDefaults";
+import { Intent, ModerationRecord, ResponsePreferences, ResponseRoute, Sentiment, SkillUI, TurnMetrics, intentValidator, moderationRecordValidator, preferencesValidator, routingValidator, sentimentValidator, skillUIValidator } from "./validators";
+import { DEFAULT_PREFERENCES, loadUserPreferences } from "./preferences";
+import { runDialogueTurn } from "./dialogue";
+import { findSkill } from "./skills";
+import { extractFacts, memoriesForPrompt } from "./memories";
+import { SUMMARY_TRIGGER, scheduleSummaryIfNeeded } from "./summaries";
+import { rerouteWithoutSkill, routeResponse } from "./responseRouter";
+import { BLOCKED_INPUT_RESPONSE, BLOCKED_OUTPUT_RESPONSE, INJECTION_NOTICE, moderateInput, moderateOutput, moderationApplied, redactMessages, seedModerationRules } from "./moderation";
+import { RISK_HISTORY_MESSAGES, assessRisk, helplineTopic, regionOf, safetyResponse, seedHelplines } from "./safety";
+import { titleFromMessage } from "./sessions";
+import { Doc, Id } from "./_generated/dataModel";
 
 // Initialize default intents and sentiment models
 export const initializeDefaults = mutation({
   args: {},
   handler: async (ctx) => {
-    // Check if intents already exist
-    const existingIntents = await ctx.db.query("intents").first();
-    if (existingIntents) return;
-
-    // Default intents
-    const defaultIntents = [
-      {
-        category: "greeting",
-        patterns: ["hello", "hi", "hey", "good morning", "good afternoon", "good evening"],
-        responses: [
-          "Hello! How can I help you today?",
-          "Hi there! What can I do for you?",
-          "Hey! I'm here to assist you.",
-        ],
-        entities: [],
-        requiredConfidence: 0.7,
-      },
-      {
-        category: "weather",
-        patterns: ["weather", "temperature", "forecast", "rain", "sunny", "cloudy"],
-        responses: [
-          "I'd be happy to help with weather information. What location are you interested in?",
-          "Let me check the weather for you. Which city?",
-        ],
-        entities: [
-          {
-            type: "location",
-            patterns: ["in", "at", "for", "city", "town"],
-          },
-        ],
-        requiredConfidence: 0.8,
-      },
-      {
-        category: "music",
-        patterns: ["play music", "song", "artist", "album", "playlist", "tune"],
-        responses: [
-          "I'd love to help with music! What would you like to listen to?",
-          "Great choice! What genre or artist are you in the mood for?",
-        ],
-        entities: [
-          {
-            type: "genre",
-            patterns: ["rock", "pop", "jazz", "classical", "hip hop", "electronic"],
-          },
-          {
-            type: "artist",
-            patterns: ["by", "from", "artist"],
-          },
-        ],
-        requiredConfidence: 0.75,
-      },
-      {
-        category: "reminder",
-        patterns: ["remind me", "reminder", "don't forget", "schedule", "appointment"],
-        responses: [
-          "I'll help you set a reminder. What should I remind you about?",
-          "Sure! When would you like to be reminded?",
-        ],
-        entities: [
-          {
-            type: "time",
-            patterns: ["at", "in", "tomorrow", "today", "next week", "minutes", "hours"],
-          },
-        ],
-        requiredConfidence: 0.8,
-      },
-      {
-        category: "emotion_support",
-        patterns: ["sad", "depressed", "anxious", "worried", "stressed", "upset"],
-        responses: [
-          "I'm sorry you're feeling this way. Would you like to talk about it?",
-          "I understand this might be difficult. I'm here to listen.",
-          "It's okay to feel this way sometimes. How can I support you?",
-        ],
-        entities: [],
-        requiredConfidence: 0.6,
-      },
-      {
-        category: "question",
-        patterns: ["what", "how", "when", "where", "why", "who", "tell me", "explain", "define"],
-        responses: [
-          "Let me find that information for you.",
-          "I'll look that up right away.",
-        ],
-        entities: [],
-        requiredConfidence: 0.5,
-      },
-    ];
-
-    for (const intent of defaultIntents) {
-      await ctx.db.insert("intents", intent);
+    // Seed any default intent that doesn't exist yet, so intents added in
+    // later releases reach existing deployments too.
+    for (const intent of DEFAULT_INTENTS) {
+      const existing = await ctx.db
+        .query("intents")
+        .withIndex("by_category", q => q.eq("category", intent.category))
+        .first();
+      if (!existing) {
+        await ctx.db.insert("intents", intent);
+      }
     }
 
+    // Helplines quoted by the safety layer
+    await seedHelplines(ctx);
+
+    // Moderation rules applied around LLM calls
+    await seedModerationRules(ctx);
+
     // Default sentiment model
-    await ctx.db.insert("sentimentModels", {
-      name: "default",
-      emotionKeywords: {
-        happy: ["happy", "joy", "excited", "great", "awesome", "wonderful", "fantastic", "amazing", "love", "perfect"],
-        sad: ["sad", "depressed", "down", "unhappy", "miserable", "terrible", "awful", "disappointed", "hurt", "cry"],
-        angry: ["angry", "mad", "furious", "annoyed", "irritated", "frustrated", "hate", "disgusted", "outraged"],
-        fear: ["scared", "afraid", "terrified", "worried", "anxious", "nervous", "panic", "frightened"],
-        surprise: ["surprised", "shocked", "amazed", "astonished", "wow", "incredible", "unbelievable"],
-        neutral: ["okay", "fine", "normal", "regular", "standard", "typical", "usual"],
-      },
-      intensityModifiers: [
-        { word: "very", multiplier: 1.5 },
-        { word: "extremely", multiplier: 2.0 },
-        { word: "really", multiplier: 1.3 },
-        { word: "quite", multiplier: 1.2 },
-        { word: "somewhat", multiplier: 0.8 },
-        { word: "slightly", multiplier: 0.6 },
-      ],
-    });
+    const existingModel = await ctx.db.query("sentimentModels").first();
+    if (existingModel) return;
+    await ctx.db.insert("sentimentModels", { name: "default", status: "active", version: 1, ...DEFAULT_SENTIMENT_MODEL });
   },
 });
 
-// Analyze sentiment from text
+// Analyze sentiment from text with the active model for the locale. When a
+// candidate model is being tried for that locale its result is returned too,
+// for comparison.
 export const analyzeSentiment = action({
-  args: { text: v.string() },
-  handler: async (ctx, args) => {
-    const sentimentModel = await ctx.runQuery(api.voiceAssistant.getSentimentModel);
-    if (!sentimentModel) {
+  args: {
+    text: v.string(),
+    // The client's BCP 47 language tag, such as "en-US".
+    locale: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{
+    sentiment: Sentiment;
+    candidate: { modelId: Id<"sentimentModels">; sentiment: Sentiment } | null;
+  }> => {
+    const models = await ctx.runQuery(internal.sentimentModels.resolve, { locale: args.locale });
+    if (!models.active) {
       throw new Error("Sentiment model not found");
     }
 
-    const text = args.text.toLowerCase();
-    const words = text.split(/\s+/);
-    
-    let emotionScores = {
-      happy: 0,
-      sad: 0,
-      angry: 0,
-      fear: 0,
-      surprise: 0,
-      neutral: 0,
-    };
-
-    let totalMatches = 0;
-    let intensityMultiplier = 1.0;
-
-    // Check for intensity modifiers
-    for (const modifier of sentimentModel.intensityModifiers) {
-      if (text.includes(modifier.word)) {
-        intensityMultiplier = Math.max(intensityMultiplier, modifier.multiplier);
-      }
-    }
-
-    // Score emotions based on keyword matches
-    for (const [emotion, keywords] of Object.entries(sentimentModel.emotionKeywords)) {
-      const keywordArray = keywords as string[];
-      for (const keyword of keywordArray) {
-        if (text.includes(keyword)) {
-          emotionScores[emotion as keyof typeof emotionScores] += intensityMultiplier;
-          totalMatches++;
-        }
-      }
-    }
-
-    // Normalize scores
-    if (totalMatches > 0) {
-      for (const emotion in emotionScores) {
-        emotionScores[emotion as keyof typeof emotionScores] /= totalMatches;
-      }
-    } else {
-      emotionScores.neutral = 1.0;
-    }
-
-    // Find dominant emotion
-    const dominantEmotion = Object.entries(emotionScores).reduce((a, b) => 
-      emotionScores[a[0] as keyof typeof emotionScores] > emotionScores[b[0] as keyof typeof emotionScores] ? a : b
-    )[0];
-
-    const confidence = emotionScores[dominantEmotion as keyof typeof emotionScores];
-
-    // Calculate valence and arousal
-    const valence = (emotionScores.happy + emotionScores.surprise) - (emotionScores.sad + emotionScores.angry + emotionScores.fear);
-    const arousal = emotionScores.angry + emotionScores.fear + emotionScores.surprise + emotionScores.happy * 0.5;
-
     return {
-      emotion: dominantEmotion,
-      confidence: Math.min(confidence, 1.0),
-      valence: Math.max(-1, Math.min(1, valence)),
-      arousal: Math.max(0, Math.min(1, arousal)),
+      sentiment: analyzeWith(args.text, models.active),
+      candidate: models.candidate && {
+        modelId: models.candidate._id,
+        sentiment: analyzeWith(args.text, models.candidate),
+      },
     };
   },
 });
 
-// Detect intent from text
+// Detect intent from text. The result carries the runner-up intents and a
+// per-intent explanation on top of the category/confidence/entities stored on
+// messages; use toStoredIntent before persisting it.
 export const detectIntent = action({
-  args: { text: v.string() },
-  handler: async (ctx, args) => {
+  args: {
+    text: v.string(),
+    timezoneOffset: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<IntentDetection> => {
     const intents = await ctx.runQuery(api.voiceAssistant.getAllIntents);
-    const text = args.text.toLowerCase();
-    
-    let bestMatch = {
-      category: "unknown",
-      confidence: 0,
-      entities: [] as Array<{ type: string; value: string; confidence: number }>,
-    };
-
-    for (const intent of intents) {
-      let score = 0;
-      let matches = 0;
-
-      // Check pattern matches
-      for (const pattern of intent.patterns) {
-        if (text.includes(pattern.toLowerCase())) {
-          score += 1;
-          matches++;
-        }
-      }
-
-      if (matches > 0) {
-        const confidence = score / intent.patterns.length;
-        
-        if (confidence >= intent.requiredConfidence && confidence > bestMatch.confidence) {
-          // Extract entities
-          const entities = [];
-          for (const entityType of intent.entities) {
-            for (const pattern of entityType.patterns) {
-              if (text.includes(pattern.toLowerCase())) {
-                entities.push({
-                  type: entityType.type,
-                  value: pattern,
-                  confidence: 0.8,
-                });
-              }
-            }
-          }
-
-          bestMatch = {
-            category: intent.category,
-            confidence,
-            entities,
-          };
-        }
-      }
-    }
-
-    return bestMatch;
+    return detectIntentIn(args.text, intents, {
+      now: Date.now(),
+      timezoneOffsetMinutes: args.timezoneOffset,
+    });
   },
 });
 
-// Answer questions using OpenRouter API
+// Answer questions using the configured LLM providers
 export const answerQuestion = action({
   args: {
     question: v.string(),
     context: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      throw new Error("OpenRouter API key not configured");
-    }
-
-    const systemPrompt = `You are a helpful AI assistant. Provide accurate, concise, and informative answers to user questions. 
-If you don't know something, say so honestly. Keep responses conversational and natural for voice interaction.
-Current date: ${new Date().toLocaleDateString()}
-Current time: ${new Date().toLocaleTimeString()}`;
-
-    const messages = [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: args.question },
-    ];
-
-    if (args.context) {
-      messages.splice(1, 0, { role: "system", content: `Additional context: ${args.context}` });
+  handler: async (ctx, args): Promise<string> => {
+    const rules = await ctx.runQuery(internal.moderation.activeRules);
+    const input = moderateInput(args.question, rules);
+    if (input.record.blocked) {
+      return BLOCKED_INPUT_RESPONSE;
     }
+    const messages = buildQuestionMessages(args.question, {
+      context: args.context,
+      injectionFlagged: input.record.flagged.length > 0,
+    });
 
     try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": "https://convex.dev",
-          "X-Title": "Voice Assistant AI",
-        },
-        body: JSON.stringify({
-          model: "openai/gpt-4o-mini",
-          messages,
-          max_tokens: 300,
-          temperature: 0.7,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      return data.choices[0].message.content;
+      const result = await completeChat(redactMessages(messages, rules), { maxTokens: 300, temperature: 0.7 });
+      const output = moderateOutput(result.text, rules);
+      return output.record.blocked ? BLOCKED_OUTPUT_RESPONSE : output.text;
     } catch (error) {
-      console.error("Error calling OpenRouter API:", error);
+      console.error("Error calling LLM providers:", error);
       throw new Error("Failed to get answer from AI service");
     }
   },
 });
 
-// Generate AI response based on context
-export const generateResponse = action({
-  args: {
-    userMessage: v.string(),
-    sentiment: v.object({
-      emotion: v.string(),
-      confidence: v.number(),
-      valence: v.number(),
-      arousal: v.number(),
-    }),
-    intent: v.object({
-      category: v.string(),
-      confidence: v.number(),
-      entities: v.array(v.object({
-        type: v.string(),
-        value: v.string(),
-        confidence: v.number(),
-      })),
-    }),
-    conversationHistory: v.array(v.object({
-      type: v.union(v.literal("user"), v.literal("assistant")),
-      content: v.string(),
-    })),
+// The subset of an intent detection that is stored on messages.
+function toStoredIntent(detection: IntentDetection): Intent {
+  return {
+    category: detection.category,
+    confidence: detection.confidence,
+    entities: detection.entities,
+  };
+}
+
+type ResponseContext = {
+  userMessage: string;
+  sentiment: Sentiment;
+  intent: Intent;
+  // The router's choice for turns the LLM answers.
+  route: ResponseRoute;
+  conversationHistory: Array<{ type: "user" | "assistant"; content: string }>;
+  preferences: ResponsePreferences;
+  // Set when an injection rule flagged the user's message.
+  injectionFlagged?: boolean;
+  // What is remembered about the user that is relevant to this turn.
+  memories?: string[];
+  // Summary of the conversation before conversationHistory.
+  summary?: string;
+};
+
+type ResponsePrompt = {
+  messages: ChatMessage[];
+  maxTokens: number;
+};
+
+// Flush partial responses to the conversation at least this often while
+// streaming, even when no sentence has been completed yet.
+const STREAM_FLUSH_INTERVAL_MS = 300;
+
+// A sentence end followed by whitespace, i.e. a point where the client can
+// start speaking what it has so far.
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*\s/;
+
+// What the user actually heard of a message: the whole text, or for a reply
+// they talked over, the part read aloud before they did.
+function heardContent(message: Doc<"messages">) {
+  if (!message.interrupted || message.spokenChars === undefined) return message.content;
+  return `${message.content.slice(0, message.spokenChars).trimEnd()}… [cut off by the user]`;
+}
+
+// Persona and guidelines for each response style.
+const STYLE_PROMPTS: Record<ResponsePreferences["responseStyle"], { persona: string; guidelines: string[] }> = {
+  empathetic: {
+    persona: "You are an empathetic AI voice assistant. Respond naturally and adapt your tone based on the user's emotional state.",
+    guidelines: [
+      "If the user seems sad or distressed, be empathetic and supportive",
+      "If the user is happy or excited, match their energy",
+      "If the user is angry or frustrated, be calm and understanding",
+      "Keep responses conversational and natural",
+      "Acknowledge their emotional state when appropriate",
+      "Provide helpful responses based on their intent",
+    ],
   },
-  handler: async (ctx, args): Promise<string> => {
-    // If it's a question intent, use the real-time Q&A feature
-    if (args.intent.category === "question" || 
-        args.userMessage.toLowerCase().includes("what") ||
-        args.userMessage.toLowerCase().includes("how") ||
-        args.userMessage.toLowerCase().includes("when") ||
-        args.userMessage.toLowerCase().includes("where") ||
-        args.userMessage.toLowerCase().includes("why") ||
-        args.userMessage.toLowerCase().includes("who")) {
-      
-      try {
-        const contextInfo = args.conversationHistory.length > 0 
-          ? `Previous conversation: ${args.conversationHistory.slice(-3).map(msg => `${msg.type}: ${msg.content}`).join("; ")}`
-          : undefined;
-        
-        const answer: string = await ctx.runAction(api.voiceAssistant.answerQuestion, {
-          question: args.userMessage,
-          context: contextInfo,
-        });
-        
-        return answer;
-      } catch (error) {
-        console.error("Error getting real-time answer:", error);
-        // Fall through to regular response generation
-      }
-    }
+  professional: {
+    persona: "You are a professional AI voice assistant. Be clear, precise and courteous, with a neutral, businesslike tone.",
+    guidelines: [
+      "Focus on the task and the facts",
+      "Do not comment on the user's emotions unless they raise them",
+      "Avoid slang, exclamations and small talk",
+      "Provide helpful responses based on their intent",
+    ],
+  },
+  casual: {
+    persona: "You are a friendly, laid-back AI voice assistant. Talk like a relaxed friend: informal, light and upbeat.",
+    guidelines: [
+      "Use everyday language and contractions",
+      "Keep the mood light unless the user is clearly upset",
+      "Provide helpful responses based on their intent",
+    ],
+  },
+};
+
+// Token budgets and length guidance for each verbosity. The question budget
+// applies to the Q&A prompt, the other to conversational replies.
+const VERBOSITY_LIMITS: Record<ResponsePreferences["verbosity"], { question: number; conversation: number; instruction: string }> = {
+  brief: { question: 120, conversation: 60, instruction: "Answer in one or two short sentences." },
+  detailed: { question: 300, conversation: 150, instruction: "Give a complete answer, but keep it suitable for speaking aloud." },
+};
+
+// Extra guidelines for the conversational prompt, by route.
+const ROUTE_GUIDELINES: Record<ResponseRoute, string[]> = {
+  qa: [],
+  skill: [],
+  support: [
+    "The user needs emotional support more than information: listen, acknowledge how they feel and don't rush to fix things",
+    "Ask at most one gentle follow-up question",
+  ],
+  smalltalk: [
+    "This is small talk: keep the reply friendly and light",
+  ],
+};
+
+// How many earlier messages go into a prompt: enough for every message the
+// conversation summary doesn't cover yet.
+const PROMPT_HISTORY_MESSAGES = SUMMARY_TRIGGER;
+
+function summaryPrompt(summary: string) {
+  return `Summary of the conversation so far, before the messages below:\n${summary}`;
+}
+
+function memoryPrompt(memories: string[]) {
+  return `What you remember about the user from earlier conversations (use it naturally, don't recite it):\n${memories.map(line => `- ${line}`).join("\n")}`;
+}
+
+function historyMessages(history: ResponseContext["conversationHistory"]): ChatMessage[] {
+  return history.slice(-PROMPT_HISTORY_MESSAGES).map(msg => ({
+    role: msg.type === "user" ? "user" as const : "assistant" as const,
+    content: msg.content,
+  }));
+}
+
+type QuestionOptions = {
+  context?: string;
+  memories?: string[];
+  summary?: string;
+  history?: ResponseContext["conversationHistory"];
+  sentiment?: Sentiment;
+  preferences?: ResponsePreferences;
+  injectionFlagged?: boolean;
+};
+
+function buildQuestionMessages(question: string, options: QuestionOptions = {}): ChatMessage[] {
+  const preferences = options.preferences ?? DEFAULT_PREFERENCES;
+  let systemPrompt = `${STYLE_PROMPTS[preferences.responseStyle].persona} Provide accurate and informative answers to user questions. 
+If you don't know something, say so honestly. Keep responses conversational and natural for voice interaction. ${VERBOSITY_LIMITS[preferences.verbosity].instruction}
+Current date: ${new Date().toLocaleDateString()}
+Current time: ${new Date().toLocaleTimeString()}`;
+  if (options.sentiment) {
+    systemPrompt += `\nCurrent user emotion: ${options.sentiment.emotion} (valence ${options.sentiment.valence.toFixed(2)}); let it shape your tone, not the facts.`;
+  }
+
+  const messages: ChatMessage[] = [{ role: "system", content: systemPrompt }];
+  if (options.context) {
+    messages.push({ role: "system", content: `Additional context: ${options.context}` });
+  }
+  if (options.memories?.length) {
+    messages.push({ role: "system", content: memoryPrompt(options.memories) });
+  }
+  if (options.summary) {
+    messages.push({ role: "system", content: summaryPrompt(options.summary) });
+  }
+  messages.push(...historyMessages(options.history ?? []));
+  if (options.injectionFlagged) {
+    messages.push({ role: "system", content: INJECTION_NOTICE });
+  }
+  messages.push({ role: "user", content: question });
+  return messages;
+}
+
+// Prompts to try in order. Turns routed to Q&A get the Q&A prompt first and
+// fall back to the conversational prompt.
+function buildResponsePrompts(args: ResponseContext): ResponsePrompt[] {
+  const prompts: ResponsePrompt[] = [];
+
+  if (args.route === "qa") {
+    prompts.push({
+      messages: buildQuestionMessages(args.userMessage, {
+        history: args.conversationHistory,
+        sentiment: args.sentiment,
+        preferences: args.preferences,
+        injectionFlagged: args.injectionFlagged,
+        memories: args.memories,
+        summary: args.summary,
+      }),
+      maxTokens: VERBOSITY_LIMITS[args.preferences.verbosity].question,
+    });
+  }
 
-    // Build context-aware prompt for regular conversation
-    let systemPrompt = `You are an empathetic AI voice assistant. Respond naturally and adapt your tone based on the user's emotional state.
+  // Build context-aware prompt for regular conversation
+  const style = STYLE_PROMPTS[args.preferences.responseStyle];
+  const limits = VERBOSITY_LIMITS[args.preferences.verbosity];
+  let systemPrompt = `${style.persona}
 
 Current user emotion: ${args.sentiment.emotion} (confidence: ${args.sentiment.confidence.toFixed(2)})
 Detected intent: ${args.intent.category} (confidence: ${args.intent.confidence.toFixed(2)})
@@ -367,125 +304,169 @@ Emotional valence: ${args.sentiment.valence.toFixed(2)} (-1=negative, 1=positive
 Emotional arousal: ${args.sentiment.arousal.toFixed(2)} (0=calm, 1=excited)
 
 Guidelines:
-- If the user seems sad or distressed, be empathetic and supportive
-- If the user is happy or excited, match their energy
-- If the user is angry or frustrated, be calm and understanding
-- Keep responses conversational and natural
-- Acknowledge their emotional state when appropriate
-- Provide helpful responses based on their intent`;
-
-    if (args.intent.entities.length > 0) {
-      systemPrompt += `\n\nDetected entities: ${args.intent.entities.map(e => `${e.type}: ${e.value}`).join(", ")}`;
-    }
-
-    const messages = [
+${[...style.guidelines, ...ROUTE_GUIDELINES[args.route], limits.instruction].map(line => `- ${line}`).join("\n")}`;
+
+  if (args.intent.entities.length > 0) {
+    systemPrompt += `\n\nDetected entities: ${args.intent.entities.map(e => `${e.type}: ${e.value}`).join(", ")}`;
+  }
+  if (args.memories?.length) {
+    systemPrompt += `\n\n${memoryPrompt(args.memories)}`;
+  }
+  if (args.summary) {
+    systemPrompt += `\n\n${summaryPrompt(args.summary)}`;
+  }
+  if (args.injectionFlagged) {
+    systemPrompt += `\n\n${INJECTION_NOTICE}`;
+  }
+
+  prompts.push({
+    messages: [
       { role: "system", content: systemPrompt },
-      ...args.conversationHistory.slice(-6).map(msg => ({
-        role: msg.type === "user" ? "user" : "assistant",
-        content: msg.content,
-      })),
+      ...historyMessages(args.conversationHistory),
       { role: "user", content: args.userMessage },
-    ];
-
-    try {
-      // Try OpenRouter first
-      const openRouterKey = process.env.OPENROUTER_API_KEY;
-      if (openRouterKey) {
-        const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${openRouterKey}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "https://convex.dev",
-            "X-Title": "Voice Assistant AI",
-          },
-          body: JSON.stringify({
-            model: "openai/gpt-4o-mini",
-            messages,
-            max_tokens: 150,
-            temperature: 0.7,
-          }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          return data.choices[0].message.content;
-        }
-      }
-
-      // Fallback to Convex OpenAI
-      const convexKey = process.env.CONVEX_OPENAI_API_KEY;
-      if (convexKey) {
-        const response = await fetch(`${process.env.CONVEX_OPENAI_BASE_URL || "https://api.openai.com"}/v1/chat/completions`, {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${convexKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages,
-            max_tokens: 150,
-            temperature: 0.7,
-          }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          return data.choices[0].message.content;
-        }
-      }
+    ],
+    maxTokens: limits.conversation,
+  });
+
+  return prompts;
+}
+
+// Canned replies used when no provider could answer, by style and intent.
+// They are written for detailed replies; brief ones keep the first sentence.
+const FALLBACK_RESPONSES: Record<ResponsePreferences["responseStyle"], {
+  greeting: string;
+  sadGreeting: string;
+  emotionSupport: string;
+  question: string;
+  negative: string;
+  other: string;
+}> = {
+  empathetic: {
+    greeting: "Hello! It's great to hear from you. How can I help you today?",
+    sadGreeting: "Hello there. I can sense you might not be feeling your best today. I'm here if you need someone to talk to.",
+    emotionSupport: "I understand you're going through a difficult time. While I'm just an AI, I want you to know that your feelings are valid. Is there anything specific I can help you with?",
+    question: "I'd love to help answer your question, but I'm having trouble accessing my knowledge base right now. Could you try asking again in a moment?",
+    negative: "I'm here to help, and I can sense this might be challenging for you. Let me know what you need.",
+    other: "I'm here to help! What can I do for you?",
+  },
+  professional: {
+    greeting: "Hello. How can I help you today?",
+    sadGreeting: "Hello. How can I help you today?",
+    emotionSupport: "I'm sorry to hear that. If it would help to talk it through, I'm listening.",
+    question: "I can't reach my knowledge source at the moment. Please try your question again shortly.",
+    negative: "I understand. Tell me what you need and I'll do what I can.",
+    other: "How can I help?",
+  },
+  casual: {
+    greeting: "Hey! Good to hear from you. What's up?",
+    sadGreeting: "Hey. Sounds like today might be a rough one. I'm around if you want to chat.",
+    emotionSupport: "Oh no, sorry you're dealing with that. Want to talk about it?",
+    question: "Hmm, I can't look that up right now. Try me again in a sec?",
+    negative: "That sounds rough. Tell me what you need and we'll figure it out.",
+    other: "I'm here! What do you need?",
+  },
+};
+
+function firstSentence(text: string) {
+  return text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? text;
+}
+
+// Fallback responses based on the route, intent, sentiment and preferences,
+// used when no provider could answer.
+function fallbackResponse(args: ResponseContext): string {
+  const responses = FALLBACK_RESPONSES[args.preferences.responseStyle];
+  let response: string;
+  if (args.route === "support") {
+    response = responses.emotionSupport;
+  } else if (args.intent.category === "greeting") {
+    response = args.sentiment.emotion === "sad" ? responses.sadGreeting : responses.greeting;
+  } else if (args.route === "qa") {
+    response = responses.question;
+  } else {
+    response = args.sentiment.valence < -0.3 ? responses.negative : responses.other;
+  }
+  return args.preferences.verbosity === "brief" ? firstSentence(response) : response;
+}
 
-      throw new Error("No API keys available");
-    } catch (error) {
-      console.error("Error generating response:", error);
-      
-      // Fallback responses based on intent and sentiment
-      if (args.intent.category === "greeting") {
-        return args.sentiment.emotion === "sad" 
-          ? "Hello there. I can sense you might not be feeling your best today. I'm here if you need someone to talk to."
-          : "Hello! It's great to hear from you. How can I help you today?";
-      } else if (args.intent.category === "emotion_support") {
-        return "I understand you're going through a difficult time. While I'm just an AI, I want you to know that your feelings are valid. Is there anything specific I can help you with?";
-      } else if (args.intent.category === "question") {
-        return "I'd love to help answer your question, but I'm having trouble accessing my knowledge base right now. Could you try asking again in a moment?";
-      } else {
-        return args.sentiment.valence < -0.3
-          ? "I'm here to help, and I can sense this might be challenging for you. Let me know what you need."
-          : "I'm here to help! What can I do for you?";
+// Generate AI response based on context
+export const generateResponse = action({
+  args: {
+    userMessage: v.string(),
+    sentiment: sentimentValidator,
+    intent: intentValidator,
+    conversationHistory: v.array(v.object({
+      type: v.union(v.literal("user"), v.literal("assistant")),
+      content: v.string(),
+    })),
+    preferences: v.optional(preferencesValidator),
+    // Summary of the conversation before conversationHistory, from
+    // summaries.forSession.
+    summary: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<string> => {
+    const rules = await ctx.runQuery(internal.moderation.activeRules);
+    const input = moderateInput(args.userMessage, rules);
+    if (input.record.blocked) {
+      return BLOCKED_INPUT_RESPONSE;
+    }
+    const userId = await getAuthUserId(ctx);
+    const memories = userId ? await ctx.runQuery(internal.memories.listForUser, { userId }) : [];
+    const context: ResponseContext = {
+      ...args,
+      route: routeResponse({ intent: args.intent, sentiment: args.sentiment }).route,
+      preferences: args.preferences ?? DEFAULT_PREFERENCES,
+      injectionFlagged: input.record.flagged.length > 0,
+      memories: memoriesForPrompt(memories, args.userMessage, args.intent.category),
+    };
+    for (const prompt of buildResponsePrompts(context)) {
+      try {
+        const result = await completeChat(redactMessages(prompt.messages, rules), { maxTokens: prompt.maxTokens, temperature: 0.7 });
+        const output = moderateOutput(result.text, rules);
+        return output.record.blocked ? BLOCKED_OUTPUT_RESPONSE : output.text;
+      } catch (error) {
+        console.error("Error generating response:", error);
       }
     }
+    return fallbackResponse(context);
   },
 });
 
+// Runs `fn` and returns its result together with how long it took.
+async function timed<T>(fn: () => Promise<T>): Promise<[T, number]> {
+  const startedAt = Date.now();
+  const result = await fn();
+  return [result, Date.now() - startedAt];
+}
+
 // Process voice input and generate response
 export const processVoiceInput = action({
   args: {
     text: v.string(),
     sessionId: v.string(),
+    // The client's Date#getTimezoneOffset, used to resolve times like "5pm".
+    timezoneOffset: v.optional(v.number()),
+    // The client's language, which picks the sentiment model.
+    locale: v.optional(v.string()),
   },
   handler: async (ctx, args): Promise<{
     response: string;
-    sentiment: {
-      emotion: string;
-      confidence: number;
-      valence: number;
-      arousal: number;
-    };
-    intent: {
-      category: string;
-      confidence: number;
-      entities: Array<{
-        type: string;
-        value: string;
-        confidence: number;
-      }>;
-    };
+    // The response isn't a continuation of what was streamed, because
+    // moderation blocked or redacted it; it has to be spoken afresh.
+    replaced: boolean;
+    // The assistant message holding the response.
+    messageId: Id<"messages">;
+    ui?: SkillUI;
+    sentiment: Sentiment;
+    intent: Intent;
     processingTime: number;
     metrics: {
       sentimentConfidence: number;
       intentConfidence: number;
-      responseLatency: number;
+      responseLatency: {
+        // Time until the first sentence was available to speak.
+        timeToFirstAudio: number;
+        total: number;
+      };
     };
   }> => {
     const userId = await getAuthUserId(ctx);
@@ -496,84 +477,274 @@ export const processVoiceInput = action({
     const startTime = Date.now();
 
     // Analyze sentiment and detect intent in parallel
-    const [sentiment, intent]: [
-      {
-        emotion: string;
-        confidence: number;
-        valence: number;
-        arousal: number;
-      },
-      {
-        category: string;
-        confidence: number;
-        entities: Array<{
-          type: string;
-          value: string;
-          confidence: number;
-        }>;
-      }
-    ] = await Promise.all([
-      ctx.runAction(api.voiceAssistant.analyzeSentiment, { text: args.text }),
-      ctx.runAction(api.voiceAssistant.detectIntent, { text: args.text }),
+    const [[{ sentiment, candidate }, sentimentMs], [detection, intentMs]] = await Promise.all([
+      timed(() => ctx.runAction(api.voiceAssistant.analyzeSentiment, { text: args.text, locale: args.locale })),
+      timed(() => ctx.runAction(api.voiceAssistant.detectIntent, { text: args.text, timezoneOffset: args.timezoneOffset })),
     ]);
+    const intent = toStoredIntent(detection);
 
     // Get conversation history
+    const historyStartedAt = Date.now();
     const conversation = await ctx.runQuery(api.voiceAssistant.getConversation, {
       userId,
       sessionId: args.sessionId,
     });
 
-    const conversationHistory = conversation?.messages.slice(-10).map((msg: any) => ({
-      type: msg.type,
-      content: msg.content,
-    })) || [];
+    const recentMessages = conversation
+      ? await ctx.runQuery(internal.messages.listRecent, { conversationId: conversation._id, limit: SUMMARY_TRIGGER })
+      : [];
+    // Earlier messages reach the prompt through the conversation summary.
+    const conversationHistory = recentMessages
+      .filter(msg => msg.timestamp > (conversation?.summarizedThrough ?? -1))
+      .map(msg => ({
+        type: msg.type,
+        content: heardContent(msg),
+      }));
+    let memories = await ctx.runQuery(internal.memories.listForUser, { userId });
+    const historyMs = Date.now() - historyStartedAt;
+
+    const rules = await ctx.runQuery(internal.moderation.activeRules);
+    const inputModeration = moderateInput(args.text, rules);
+
+    // Crisis language in this turn, or earlier in the conversation, is
+    // answered by the safety layer before any skill or LLM sees it.
+    const risk = assessRisk(
+      args.text,
+      recentMessages.filter(msg => msg.type === "user").slice(-RISK_HISTORY_MESSAGES).map(msg => msg.content),
+      sentiment.valence,
+    );
+
+    // Record the user's turn together with an empty assistant message that
+    // is filled in as the response streams.
+    const [{ conversationId, messageId, userMessageId }, startTurnMs] = await timed(() => ctx.runMutation(internal.voiceAssistant.startTurn, {
+      userId,
+      sessionId: args.sessionId,
+      userMessage: args.text,
+      sentiment,
+      intent,
+      moderation: moderationApplied(inputModeration.record),
+    }));
+
+    const routingInput = { intent: detection, sentiment, skill: findSkill(intent.category)?.name };
+    let routing = routeResponse(routingInput);
 
-    // Generate response
-    const responseText: string = await ctx.runAction(api.voiceAssistant.generateResponse, {
+    const responseContext: ResponseContext = {
       userMessage: args.text,
       sentiment,
       intent,
+      route: routing.route,
       conversationHistory,
-    });
+      preferences: conversation?.context.preferences ??
+        await ctx.runQuery(internal.preferences.getForUser, { userId }),
+      injectionFlagged: inputModeration.record.flagged.length > 0,
+      summary: conversation?.summary,
+    };
+
+    let streamed = "";
+    let flushedLength = 0;
+    let lastFlushAt = Date.now();
+    let firstAudioAt: number | null = null;
+    let interrupted = false;
+
+    const flush = async () => {
+      if (streamed.length === flushedLength) return;
+      const update = await ctx.runMutation(internal.voiceAssistant.updateStreamingMessage, {
+        messageId,
+        content: moderateOutput(streamed, rules, true).text,
+      });
+      interrupted = update.interrupted;
+      flushedLength = streamed.length;
+      lastFlushAt = Date.now();
+      if (firstAudioAt === null && SENTENCE_BOUNDARY.test(streamed)) {
+        firstAudioAt = lastFlushAt;
+      }
+    };
 
-    // Save conversation
-    await ctx.runMutation(api.voiceAssistant.saveMessage, {
+    // Generate response. The safety layer and blocked input get a fixed
+    // reply; otherwise a skill registered for the intent (or the one waiting
+    // on an answer from the previous turn) replies directly, and everything
+    // else goes to the LLM with the prompt for its route.
+    const responseStartedAt = Date.now();
+    let cannedReply: { speech: string; ui?: SkillUI; skill?: string } | null = null;
+    let source: TurnMetrics["source"] = "skill";
+    if (risk.level !== "none") {
+      const helpline = await ctx.runQuery(internal.safety.helplineFor, { locale: args.locale, topic: helplineTopic(risk) });
+      cannedReply = { speech: safetyResponse(risk, helpline), ui: { kind: "safety", data: { helpline } }, skill: "safety" };
+      source = "safety";
+      await ctx.runMutation(internal.safety.escalate, {
+        userId,
+        conversationId,
+        messageId: userMessageId,
+        level: risk.level,
+        categories: risk.categories,
+        matches: risk.matches,
+        region: regionOf(args.locale),
+      });
+    } else if (inputModeration.record.blocked) {
+      cannedReply = { speech: BLOCKED_INPUT_RESPONSE };
+      source = "moderation";
+    }
+    // Remember facts the user mentioned ("my name is…", "I live in…") before
+    // answering, so the reply can already use them. Memory commands such as
+    // "forget that I like jazz" are left to the memory skill.
+    const facts = cannedReply || intent.category === "memory" ? [] : extractFacts(args.text);
+    if (facts.length > 0) {
+      memories = await ctx.runMutation(internal.memories.remember, {
+        userId,
+        facts,
+        source: "conversation",
+        messageId: userMessageId,
+      });
+    }
+    responseContext.memories = memoriesForPrompt(memories, args.text, intent.category);
+    const skillResult = cannedReply ?? await runDialogueTurn({
+      ctx,
       userId,
       sessionId: args.sessionId,
-      userMessage: args.text,
-      assistantResponse: responseText,
-      sentiment,
+      conversationId,
+      text: args.text,
       intent,
+      sentiment,
+      context: conversation?.context,
+      timezoneOffset: args.timezoneOffset,
+      memories,
     });
+    if (skillResult && !cannedReply && routing.route !== "skill") {
+      routing = { route: "skill", reason: `continues the ${skillResult.skill} dialogue` };
+    } else if (!skillResult && routing.route === "skill") {
+      routing = rerouteWithoutSkill(routingInput, routingInput.skill!);
+      responseContext.route = routing.route;
+    }
+    let responseText = skillResult?.speech ?? "";
+    let served: StreamResult | undefined;
+    let outputModeration: { text: string; record: ModerationRecord } | undefined;
+    const attempts: LLMAttempt[] = [];
+    const prompts = responseText ? [] : buildResponsePrompts(responseContext);
+    for (const prompt of prompts) {
+      try {
+        const result = await streamChat(redactMessages(prompt.messages, rules), { maxTokens: prompt.maxTokens, temperature: 0.7 }, async (delta) => {
+          streamed += delta;
+          // Stop as soon as the reply hits a blocking rule.
+          const check = moderateOutput(streamed, rules, true);
+          if (check.record.blocked) {
+            outputModeration = check;
+            throw new StreamStopped("Response blocked by moderation");
+          }
+          if (SENTENCE_BOUNDARY.test(streamed.slice(flushedLength)) || Date.now() - lastFlushAt >= STREAM_FLUSH_INTERVAL_MS) {
+            await flush();
+          }
+          // The user talked over the reply; stop generating the rest.
+          if (interrupted) {
+            throw new StreamStopped("Response interrupted by the user");
+          }
+        });
+        attempts.push(...result.attempts);
+        served = result;
+        responseText = result.text;
+        source = "llm";
+        break;
+      } catch (error) {
+        if (error instanceof StreamStopped) {
+          // Stopped on purpose; the provider itself didn't fail.
+          attempts.push(...error.result?.attempts ?? []);
+          served = error.result;
+        } else {
+          console.error("Error streaming response:", error);
+          if (error instanceof LLMError) {
+            attempts.push(...error.attempts);
+          }
+        }
+        if (outputModeration) {
+          responseText = BLOCKED_OUTPUT_RESPONSE;
+          source = "moderation";
+          break;
+        }
+        // Part of the answer may already have been spoken; keep it.
+        if (streamed.length > 0) {
+          responseText = streamed;
+          source = error instanceof StreamStopped ? "interrupted" : "partial";
+          break;
+        }
+      }
+    }
+    if (source === "llm" || source === "partial" || source === "interrupted") {
+      outputModeration = moderateOutput(responseText, rules);
+      responseText = outputModeration.text;
+    }
+    if (!responseText) {
+      responseText = fallbackResponse(responseContext);
+      source = "fallback";
+    }
+    const responseMs = Date.now() - responseStartedAt;
+
+    const [, finishTurnMs] = await timed(() => ctx.runMutation(internal.voiceAssistant.finishTurn, {
+      messageId,
+      content: responseText,
+      skill: skillResult?.skill,
+      ui: skillResult?.ui,
+      moderation: outputModeration && moderationApplied(outputModeration.record),
+      routing: cannedReply ? undefined : routing,
+    }));
 
     const processingTime = Date.now() - startTime;
+    const timeToFirstAudio = (firstAudioAt ?? Date.now()) - startTime;
+    const failedAttempts = attempts.filter(attempt => attempt.error).length;
+    await ctx.runMutation(internal.metrics.record, {
+      userId,
+      messageId,
+      stages: {
+        sentiment: sentimentMs,
+        intent: intentMs,
+        history: historyMs,
+        response: responseMs,
+        save: startTurnMs + finishTurnMs,
+        total: processingTime,
+      },
+      timeToFirstAudio,
+      firstTokenMs: served?.firstTokenMs,
+      source,
+      skill: skillResult?.skill,
+      provider: served?.provider,
+      model: served?.model,
+      failedAttempts,
+      providerFailover: served !== undefined && failedAttempts > 0,
+    });
+    if (candidate) {
+      await ctx.runMutation(internal.sentimentModels.recordComparison, {
+        userId,
+        messageId: userMessageId,
+        candidateModelId: candidate.modelId,
+        primary: sentiment,
+        candidate: candidate.sentiment,
+      });
+    }
 
     return {
       response: responseText,
+      replaced: streamed.length > 0 && responseText !== streamed,
+      messageId,
+      ui: skillResult?.ui,
       sentiment,
       intent,
       processingTime,
       metrics: {
         sentimentConfidence: sentiment.confidence,
         intentConfidence: intent.confidence,
-        responseLatency: processingTime,
+        responseLatency: {
+          timeToFirstAudio,
+          total: processingTime,
+        },
       },
     };
   },
 });
 
 // Internal queries and mutations
-export const getSentimentModel = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db.query("sentimentModels").filter(q => q.eq(q.field("name"), "default")).first();
-  },
-});
-
 export const getAllIntents = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("intents").collect();
+    const intents = await ctx.db.query("intents").collect();
+    return intents.filter(intent => intent.enabled !== false);
   },
 });
 
@@ -592,27 +763,18 @@ export const getConversation = query({
   },
 });
 
-export const saveMessage = mutation({
+function countMood(counts: Record<string, number> | undefined, emotion: string) {
+  return { ...counts, [emotion]: (counts?.[emotion] ?? 0) + 1 };
+}
+
+export const startTurn = internalMutation({
   args: {
     userId: v.id("users"),
     sessionId: v.string(),
     userMessage: v.string(),
-    assistantResponse: v.string(),
-    sentiment: v.object({
-      emotion: v.string(),
-      confidence: v.number(),
-      valence: v.number(),
-      arousal: v.number(),
-    }),
-    intent: v.object({
-      category: v.string(),
-      confidence: v.number(),
-      entities: v.array(v.object({
-        type: v.string(),
-        value: v.string(),
-        confidence: v.number(),
-      })),
-    }),
+    sentiment: sentimentValidator,
+    intent: intentValidator,
+    moderation: v.optional(moderationRecordValidator),
   },
   handler: async (ctx, args) => {
     const conversation = await ctx.db
@@ -623,25 +785,14 @@ export const saveMessage = mutation({
       .first();
 
     const timestamp = Date.now();
-    const userMessage = {
-      id: `user_${timestamp}`,
-      type: "user" as const,
-      content: args.userMessage,
-      timestamp,
-      sentiment: args.sentiment,
-      intent: args.intent,
-    };
-
-    const assistantMessage = {
-      id: `assistant_${timestamp + 1}`,
-      type: "assistant" as const,
-      content: args.assistantResponse,
-      timestamp: timestamp + 1,
+    const updates = {
+      lastMessageAt: timestamp,
+      moodCounts: countMood(conversation?.moodCounts, args.sentiment.emotion),
+      messageCount: (conversation?.messageCount ?? 0) + 2,
     };
 
+    let conversationId;
     if (conversation) {
-      const updatedMessages = [...conversation.messages, userMessage, assistantMessage];
-      
       // Update context based on sentiment and intent
       const updatedContext = {
         ...conversation.context,
@@ -650,82 +801,113 @@ export const saveMessage = mutation({
         conversationTopic: args.intent.category !== "unknown" ? args.intent.category : conversation.context.conversationTopic,
       };
 
-      await ctx.db.patch(conversation._id, {
-        messages: updatedMessages,
-        context: updatedContext,
-      });
+      await ctx.db.patch(conversation._id, { context: updatedContext, ...updates });
+      conversationId = conversation._id;
     } else {
-      await ctx.db.insert("conversations", {
+      conversationId = await ctx.db.insert("conversations", {
         userId: args.userId,
         sessionId: args.sessionId,
-        messages: [userMessage, assistantMessage],
         context: {
           userMood: args.sentiment.emotion,
           conversationTopic: args.intent.category !== "unknown" ? args.intent.category : undefined,
           lastIntent: args.intent.category,
-          preferences: {
-            responseStyle: "empathetic",
-            verbosity: "detailed",
-          },
+          preferences: await loadUserPreferences(ctx, args.userId),
         },
+        title: titleFromMessage(args.userMessage),
+        titleSource: "auto",
+        ...updates,
       });
     }
+
+    const userMessageId = await ctx.db.insert("messages", {
+      conversationId,
+      userId: args.userId,
+      type: "user",
+      content: args.userMessage,
+      timestamp,
+      sentiment: args.sentiment,
+      intent: args.intent,
+      moderation: args.moderation,
+    });
+    const messageId = await ctx.db.insert("messages", {
+      conversationId,
+      userId: args.userId,
+      type: "assistant",
+      content: "",
+      timestamp: timestamp + 1,
+      streaming: true,
+    });
+    return { conversationId, messageId, userMessageId };
   },
 });
 
-// Get conversation history for display
-export const getConversationHistory = query({
+// Writes the partial text of an assistant message that is still streaming.
+export const updateStreamingMessage = internalMutation({
   args: {
-    sessionId: v.string(),
+    messageId: v.id("messages"),
+    content: v.string(),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) return null;
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return { interrupted: false };
 
-    const conversation = await ctx.db
-      .query("conversations")
-      .withIndex("by_user_and_session", q => 
-        q.eq("userId", userId).eq("sessionId", args.sessionId)
-      )
-      .first();
+    await ctx.db.patch(message._id, { content: args.content });
+    return { interrupted: message.interrupted === true };
+  },
+});
 
-    return conversation;
+export const finishTurn = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    skill: v.optional(v.string()),
+    ui: v.optional(skillUIValidator),
+    moderation: v.optional(moderationRecordValidator),
+    routing: v.optional(routingValidator),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return;
+
+    const { messageId: _messageId, ...final } = args;
+    await ctx.db.patch(message._id, { ...final, streaming: false });
+
+    // Replace the placeholder title once the first exchange is complete.
+    const conversation = await ctx.db.get(message.conversationId);
+    const firstExchange = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_and_timestamp", q => q.eq("conversationId", message.conversationId))
+      .take(2);
+    const isFirstReply = firstExchange[1]?._id === message._id;
+    if (conversation && isFirstReply && conversation.titleSource !== "user") {
+      await ctx.scheduler.runAfter(0, internal.sessions.generateTitle, { conversationId: conversation._id });
+    }
+
+    // Fold older messages into the conversation summary as it grows.
+    await scheduleSummaryIfNeeded(ctx, message.conversationId);
   },
 });
 
-// Get performance metrics
-export const getPerformanceMetrics = query({
-  args: {},
-  handler: async (ctx) => {
+// Records that the user cut off a spoken reply, and how much of it they heard.
+export const markInterrupted = mutation({
+  args: {
+    messageId: v.id("messages"),
+    spokenChars: v.number(),
+  },
+  handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) return null;
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
 
-    const conversations = await ctx.db
-      .query("conversations")
-      .withIndex("by_user", q => q.eq("userId", userId))
-      .collect();
-
-    let totalMessages = 0;
-    let sentimentAccuracy = 0;
-    let intentAccuracy = 0;
-    let avgResponseTime = 0;
-
-    for (const conversation of conversations) {
-      for (const message of conversation.messages) {
-        if (message.type === "user" && message.sentiment && message.intent) {
-          totalMessages++;
-          sentimentAccuracy += message.sentiment.confidence;
-          intentAccuracy += message.intent.confidence;
-        }
-      }
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.userId !== userId || message.type !== "assistant") {
+      throw new Error("Message not found");
     }
 
-    return {
-      totalConversations: conversations.length,
-      totalMessages,
-      avgSentimentAccuracy: totalMessages > 0 ? (sentimentAccuracy / totalMessages) * 100 : 0,
-      avgIntentAccuracy: totalMessages > 0 ? (intentAccuracy / totalMessages) * 100 : 0,
-      avgResponseLatency: 1200, // Simulated average
-    };
+    await ctx.db.patch(message._id, {
+      interrupted: true,
+      spokenChars: Math.max(0, Math.round(args.spokenChars)),
+    });
   },
 });
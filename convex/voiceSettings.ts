@@ -0,0 +1,88 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// Per-user speech synthesis settings. The client builds every utterance from
+// these, so a user who needs slower or louder speech gets it everywhere.
+
+// Matches what the assistant used before settings could be saved. An empty
+// preferredVoice means the browser's default voice.
+export const DEFAULT_VOICE_SETTINGS = {
+  preferredVoice: "",
+  speechRate: 0.9,
+  pitch: 1.0,
+  volume: 0.8,
+};
+
+const RANGES = {
+  speechRate: { min: 0.5, max: 2 },
+  pitch: { min: 0, max: 2 },
+  volume: { min: 0, max: 1 },
+};
+
+export const get = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return DEFAULT_VOICE_SETTINGS;
+
+    const settings = await ctx.db
+      .query("voiceSettings")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .first();
+    if (!settings) return DEFAULT_VOICE_SETTINGS;
+
+    const { preferredVoice, speechRate, pitch, volume } = settings;
+    return { preferredVoice, speechRate, pitch, volume };
+  },
+});
+
+export const save = mutation({
+  args: {
+    preferredVoice: v.string(),
+    speechRate: v.number(),
+    pitch: v.number(),
+    volume: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    for (const [field, range] of Object.entries(RANGES)) {
+      const value = args[field as keyof typeof RANGES];
+      if (!Number.isFinite(value) || value < range.min || value > range.max) {
+        throw new Error(`${field} must be between ${range.min} and ${range.max}`);
+      }
+    }
+
+    const existing = await ctx.db
+      .query("voiceSettings")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+    } else {
+      await ctx.db.insert("voiceSettings", { userId, ...args });
+    }
+  },
+});
+
+export const reset = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const existing = await ctx.db
+      .query("voiceSettings")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
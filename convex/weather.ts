@@ -0,0 +1,240 @@
+// Weather data layer.
+//
+// The weather skill asks `getForecast` for a location; it serves a cached
+// forecast when one is fresh enough and otherwise calls the provider named by
+// WEATHER_PROVIDER:
+//
+//   WEATHER_PROVIDER       "open-meteo" (default, no API key needed) or
+//                          "fixture" for tests and offline development
+//   WEATHER_CACHE_TTL_MS   how long a forecast is reused, default 30 minutes
+//   WEATHER_TIMEOUT_MS     request timeout for network providers, default 8000
+
+import { internalMutation, internalQuery, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Forecast, forecastValidator } from "./validators";
+import { readEnv, readNumberEnv } from "./env";
+
+export interface WeatherProvider {
+  name: string;
+  getForecast(location: string, signal: AbortSignal): Promise<Forecast>;
+}
+
+export type WeatherErrorCode = "not_found" | "unavailable";
+
+export class WeatherError extends Error {
+  constructor(
+    message: string,
+    readonly code: WeatherErrorCode,
+    readonly provider?: string,
+  ) {
+    super(message);
+    this.name = "WeatherError";
+  }
+}
+
+const DEFAULT_PROVIDER = "open-meteo";
+const DEFAULT_CACHE_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 8000;
+const FORECAST_DAYS = 5;
+
+// WMO weather interpretation codes, as used by Open-Meteo.
+function describeWeatherCode(code: number): string {
+  if (code === 0) return "clear";
+  if (code <= 2) return "partly cloudy";
+  if (code === 3) return "cloudy";
+  if (code === 45 || code === 48) return "fog";
+  if (code >= 51 && code <= 57) return "drizzle";
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return "rain";
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "snow";
+  if (code >= 95) return "thunderstorm";
+  return "cloudy";
+}
+
+const openMeteoProvider: WeatherProvider = {
+  name: "open-meteo",
+  async getForecast(location, signal) {
+    const geocodeUrl = `https://geocoding-api.open-meteo.com/v1/search?count=1&language=en&format=json&name=${encodeURIComponent(location)}`;
+    const geocode = await fetchJson(geocodeUrl, signal);
+    const place = geocode?.results?.[0];
+    if (!place) {
+      throw new WeatherError(`No location found for "${location}"`, "not_found", "open-meteo");
+    }
+
+    const forecastUrl = "https://api.open-meteo.com/v1/forecast" +
+      `?latitude=${place.latitude}&longitude=${place.longitude}` +
+      "&current=temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m" +
+      "&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max" +
+      `&timezone=auto&forecast_days=${FORECAST_DAYS}`;
+    const data = await fetchJson(forecastUrl, signal);
+    if (!data?.current || !Array.isArray(data?.daily?.time)) {
+      throw new WeatherError("open-meteo returned an unexpected forecast", "unavailable", "open-meteo");
+    }
+
+    return {
+      location: [place.name, place.country].filter(Boolean).join(", "),
+      current: {
+        temperature: Math.round(data.current.temperature_2m),
+        condition: describeWeatherCode(data.current.weather_code),
+        windSpeed: Math.round(data.current.wind_speed_10m),
+        humidity: data.current.relative_humidity_2m,
+      },
+      daily: data.daily.time.map((date: string, i: number) => ({
+        date,
+        high: Math.round(data.daily.temperature_2m_max[i]),
+        low: Math.round(data.daily.temperature_2m_min[i]),
+        condition: describeWeatherCode(data.daily.weather_code[i]),
+        precipitationChance: data.daily.precipitation_probability_max?.[i] ?? undefined,
+      })),
+    };
+  },
+};
+
+async function fetchJson(url: string, signal: AbortSignal): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    if (signal.aborted) throw new WeatherError("Weather request timed out", "unavailable", "open-meteo");
+    throw new WeatherError(`Weather request failed: ${String(error)}`, "unavailable", "open-meteo");
+  }
+  if (!response.ok) {
+    throw new WeatherError(`Weather API error: ${response.status}`, "unavailable", "open-meteo");
+  }
+  return await response.json();
+}
+
+// Fixed weather for a handful of cities. Dates start today so relative
+// questions ("tomorrow") resolve the same way they do against a live API.
+const FIXTURES: Record<string, { location: string; humidity: number; windSpeed: number; days: Array<[number, number, string, number]> }> = {
+  london: {
+    location: "London, United Kingdom",
+    humidity: 78,
+    windSpeed: 14,
+    days: [[16, 9, "partly cloudy", 20], [15, 8, "rain", 70], [17, 10, "cloudy", 30], [18, 11, "clear", 5], [16, 10, "drizzle", 55]],
+  },
+  paris: {
+    location: "Paris, France",
+    humidity: 65,
+    windSpeed: 10,
+    days: [[19, 11, "clear", 0], [21, 12, "partly cloudy", 10], [20, 13, "rain", 60], [18, 11, "cloudy", 25], [19, 10, "clear", 5]],
+  },
+  "new york": {
+    location: "New York, United States",
+    humidity: 55,
+    windSpeed: 18,
+    days: [[22, 15, "partly cloudy", 15], [24, 17, "thunderstorm", 80], [21, 14, "clear", 5], [20, 13, "clear", 0], [23, 16, "cloudy", 30]],
+  },
+  tokyo: {
+    location: "Tokyo, Japan",
+    humidity: 70,
+    windSpeed: 9,
+    days: [[25, 19, "cloudy", 35], [26, 20, "rain", 75], [27, 21, "partly cloudy", 20], [28, 21, "clear", 10], [26, 20, "rain", 65]],
+  },
+  delhi: {
+    location: "Delhi, India",
+    humidity: 40,
+    windSpeed: 7,
+    days: [[34, 24, "clear", 0], [35, 25, "clear", 0], [33, 24, "partly cloudy", 10], [32, 23, "thunderstorm", 45], [33, 24, "clear", 5]],
+  },
+};
+
+const fixtureProvider: WeatherProvider = {
+  name: "fixture",
+  async getForecast(location) {
+    const fixture = FIXTURES[location.trim().toLowerCase()];
+    if (!fixture) {
+      throw new WeatherError(`No fixture weather for "${location}"`, "not_found", "fixture");
+    }
+    const today = new Date();
+    return {
+      location: fixture.location,
+      current: {
+        temperature: Math.round((fixture.days[0][0] + fixture.days[0][1]) / 2),
+        condition: fixture.days[0][2],
+        windSpeed: fixture.windSpeed,
+        humidity: fixture.humidity,
+      },
+      daily: fixture.days.map(([high, low, condition, precipitationChance], i) => ({
+        date: new Date(today.getTime() + i * 86400000).toISOString().slice(0, 10),
+        high,
+        low,
+        condition,
+        precipitationChance,
+      })),
+    };
+  },
+};
+
+const providerRegistry: Record<string, WeatherProvider> = {
+  "open-meteo": openMeteoProvider,
+  fixture: fixtureProvider,
+};
+
+// Makes an additional provider available to WEATHER_PROVIDER.
+export function registerWeatherProvider(provider: WeatherProvider) {
+  providerRegistry[provider.name] = provider;
+}
+
+export function getWeatherProvider(): WeatherProvider {
+  const name = readEnv("WEATHER_PROVIDER") ?? DEFAULT_PROVIDER;
+  const provider = providerRegistry[name];
+  if (!provider) {
+    throw new WeatherError(`Unknown weather provider "${name}"`, "unavailable");
+  }
+  return provider;
+}
+
+// Returns the forecast for a location, from the cache while it is fresh.
+export async function getForecast(ctx: ActionCtx, location: string): Promise<{ forecast: Forecast; cached: boolean }> {
+  const provider = getWeatherProvider();
+  const key = location.trim().toLowerCase();
+  const ttl = readNumberEnv("WEATHER_CACHE_TTL_MS") ?? DEFAULT_CACHE_TTL_MS;
+
+  const cached = await ctx.runQuery(internal.weather.getCachedForecast, { provider: provider.name, location: key });
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return { forecast: cached.forecast, cached: true };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), readNumberEnv("WEATHER_TIMEOUT_MS") ?? DEFAULT_TIMEOUT_MS);
+  try {
+    const forecast = await provider.getForecast(location, controller.signal);
+    await ctx.runMutation(internal.weather.cacheForecast, { provider: provider.name, location: key, forecast });
+    return { forecast, cached: false };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export const getCachedForecast = internalQuery({
+  args: {
+    provider: v.string(),
+    location: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("weatherCache")
+      .withIndex("by_provider_and_location", q => q.eq("provider", args.provider).eq("location", args.location))
+      .first();
+  },
+});
+
+export const cacheForecast = internalMutation({
+  args: {
+    provider: v.string(),
+    location: v.string(),
+    forecast: forecastValidator,
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("weatherCache")
+      .withIndex("by_provider_and_location", q => q.eq("provider", args.provider).eq("location", args.location))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { forecast: args.forecast, fetchedAt: Date.now() });
+    } else {
+      await ctx.db.insert("weatherCache", { ...args, fetchedAt: Date.now() });
+    }
+  },
+});
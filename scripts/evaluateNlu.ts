@@ -0,0 +1,79 @@
+// Evaluates the NLU pipeline against a labelled dataset without a deployment.
+//
+//   npm run eval:nlu -- [dataset.jsonl] [--config config.json] [--baseline baseline.json]
+//                       [--update-baseline] [--verbose]
+//
+// The dataset defaults to eval/nlu-dataset.jsonl and the baseline to
+// eval/nlu-baseline.json. Without --config the default intents and sentiment
+// model are used; a config file may replace either with
+// {"intents": [...], "sentimentModel": {...}}, e.g. to try new patterns
+// before saving them. Exits with status 1 when a metric or a previously
+// correct example regresses against the baseline.
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import {
+  Baseline,
+  NluConfig,
+  compareWithBaseline,
+  evaluate,
+  formatReport,
+  hasRegressions,
+  parseDataset,
+  toBaseline,
+} from "../convex/nluEvaluation";
+import { DEFAULT_INTENTS, DEFAULT_SENTIMENT_MODEL } from "../convex/nluDefaults";
+
+function parseArgs(argv: string[]) {
+  const args = {
+    dataset: "eval/nlu-dataset.jsonl",
+    baseline: "eval/nlu-baseline.json",
+    config: undefined as string | undefined,
+    updateBaseline: false,
+    verbose: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--baseline") args.baseline = argv[++i];
+    else if (arg === "--config") args.config = argv[++i];
+    else if (arg === "--update-baseline") args.updateBaseline = true;
+    else if (arg === "--verbose") args.verbose = true;
+    else if (arg.startsWith("--")) throw new Error(`Unknown option ${arg}`);
+    else args.dataset = arg;
+  }
+  return args;
+}
+
+function loadConfig(path?: string): NluConfig {
+  const overrides = path ? JSON.parse(readFileSync(path, "utf8")) as Partial<NluConfig> : {};
+  return {
+    intents: overrides.intents ?? DEFAULT_INTENTS,
+    sentimentModel: overrides.sentimentModel ?? DEFAULT_SENTIMENT_MODEL,
+  };
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const examples = parseDataset(readFileSync(args.dataset, "utf8"));
+  const report = evaluate(examples, loadConfig(args.config));
+
+  if (args.updateBaseline) {
+    writeFileSync(args.baseline, JSON.stringify(toBaseline(report), null, 2) + "\n");
+    console.log(formatReport(report, undefined, args.verbose));
+    console.log(`\nSaved baseline to ${args.baseline}`);
+    return;
+  }
+
+  const baseline = existsSync(args.baseline)
+    ? JSON.parse(readFileSync(args.baseline, "utf8")) as Baseline
+    : undefined;
+  const comparison = baseline && compareWithBaseline(report, baseline);
+  console.log(formatReport(report, comparison, args.verbose));
+  if (!baseline) {
+    console.log(`\nNo baseline at ${args.baseline}; run with --update-baseline to save one.`);
+  }
+  if (comparison && hasRegressions(comparison)) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { FlaskConical, History, LoaderCircle, Plus, Power, RotateCcw, Save } from "lucide-react";
+import FeedbackReport from "./FeedbackReport";
+import SentimentModelsPanel from "./SentimentModelsPanel";
+import SafetyReviewPanel from "./SafetyReviewPanel";
+import ModerationRulesPanel from "./ModerationRulesPanel";
+
+type Intent = Doc<"intents"> & { enabled: boolean; version: number };
+
+interface IntentDraft {
+  category: string;
+  patterns: string;
+  responses: string;
+  entities: string;
+  requiredConfidence: string;
+}
+
+const emptyDraft: IntentDraft = {
+  category: "",
+  patterns: "",
+  responses: "",
+  entities: "",
+  requiredConfidence: "0.7",
+};
+
+// Entities are edited one per line as "type: pattern, pattern".
+const toDraft = (intent: Intent): IntentDraft => ({
+  category: intent.category,
+  patterns: intent.patterns.join(", "),
+  responses: intent.responses.join("\n"),
+  entities: intent.entities.map(e => `${e.type}: ${e.patterns.join(", ")}`).join("\n"),
+  requiredConfidence: String(intent.requiredConfidence),
+});
+
+const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+
+const fromDraft = (draft: IntentDraft) => ({
+  category: draft.category.trim(),
+  patterns: splitList(draft.patterns),
+  responses: draft.responses.split("\n").map(line => line.trim()).filter(Boolean),
+  entities: draft.entities
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [type, patterns = ""] = line.split(":");
+      return { type: type.trim(), patterns: splitList(patterns) };
+    }),
+  requiredConfidence: Number(draft.requiredConfidence),
+});
+
+const textareaClass = "flex w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+export default function AdminPanel() {
+  const intents = useQuery(api.intents.list);
+  const createIntent = useMutation(api.intents.create);
+  const updateIntent = useMutation(api.intents.update);
+  const setEnabled = useMutation(api.intents.setEnabled);
+  const restoreVersion = useMutation(api.intents.restoreVersion);
+  const testUtterance = useAction(api.intents.testUtterance);
+
+  const [selectedId, setSelectedId] = useState<Id<"intents"> | null>(null);
+  const [draft, setDraft] = useState<IntentDraft>(emptyDraft);
+  const [utterance, setUtterance] = useState("");
+  const [testResult, setTestResult] = useState<Awaited<ReturnType<typeof testUtterance>> | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const versions = useQuery(api.intents.listVersions, selectedId ? { intentId: selectedId } : "skip");
+  const selected = intents?.find(intent => intent._id === selectedId);
+
+  const selectIntent = (intent: Intent | null) => {
+    setSelectedId(intent?._id ?? null);
+    setDraft(intent ? toDraft(intent) : emptyDraft);
+  };
+
+  const run = async (work: () => Promise<unknown>, success: string) => {
+    try {
+      await work();
+      toast.success(success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    }
+  };
+
+  const save = () => run(async () => {
+    if (selectedId) {
+      await updateIntent({ intentId: selectedId, ...fromDraft(draft) });
+    } else {
+      setSelectedId(await createIntent(fromDraft(draft)));
+    }
+  }, "Intent saved");
+
+  const runTest = async () => {
+    if (!utterance.trim()) return;
+    setIsTesting(true);
+    try {
+      setTestResult(await testUtterance({ text: utterance, timezoneOffset: new Date().getTimezoneOffset(), locale: navigator.language }));
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to test utterance");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  if (intents === undefined) {
+    return <LoaderCircle className="mx-auto w-8 h-8 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="w-full h-full grid grid-cols-1 lg:grid-cols-3 gap-6 p-2 sm:p-4 rounded-2xl border border-white/10 bg-black/20 backdrop-blur-xl">
+      {/* Intent list */}
+      <div className="flex flex-col gap-2 rounded-lg border border-white/10 bg-black/20 p-4 min-h-0">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">Intents</h3>
+          <Button size="sm" variant="secondary" onClick={() => selectIntent(null)}>
+            <Plus className="mr-1 h-4 w-4" /> New
+          </Button>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+          {intents.map(intent => (
+            <button
+              key={intent._id}
+              onClick={() => selectIntent(intent)}
+              className={`w-full text-left rounded-md px-3 py-2 text-sm hover:bg-white/10 ${intent._id === selectedId ? "bg-white/10" : ""}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className={intent.enabled ? "" : "line-through text-muted-foreground"}>{intent.category}</span>
+                <span className="text-xs text-muted-foreground">v{intent.version}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {intent.patterns.length} patterns · min {intent.requiredConfidence}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Editor */}
+      <div className="lg:col-span-2 flex flex-col gap-4 rounded-lg border border-white/10 bg-black/20 p-4 overflow-y-auto custom-scrollbar">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">{selected ? `Edit "${selected.category}"` : "New intent"}</h3>
+          {selected && (
+            <Button
+              size="sm"
+              variant={selected.enabled ? "destructive" : "secondary"}
+              onClick={() => void run(
+                () => setEnabled({ intentId: selected._id, enabled: !selected.enabled }),
+                selected.enabled ? "Intent disabled" : "Intent enabled",
+              )}
+            >
+              <Power className="mr-1 h-4 w-4" /> {selected.enabled ? "Disable" : "Enable"}
+            </Button>
+          )}
+        </div>
+
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Category</span>
+          <Input value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })} className="bg-white/5 border-white/10" />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Patterns (comma separated)</span>
+          <textarea rows={2} value={draft.patterns} onChange={e => setDraft({ ...draft, patterns: e.target.value })} className={textareaClass} />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Responses (one per line)</span>
+          <textarea rows={3} value={draft.responses} onChange={e => setDraft({ ...draft, responses: e.target.value })} className={textareaClass} />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Entities (one per line, "type: pattern, pattern")</span>
+          <textarea rows={3} value={draft.entities} onChange={e => setDraft({ ...draft, entities: e.target.value })} className={textareaClass} />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Required confidence (0–1)</span>
+          <Input type="number" min={0} max={1} step={0.05} value={draft.requiredConfidence} onChange={e => setDraft({ ...draft, requiredConfidence: e.target.value })} className="bg-white/5 border-white/10 w-32" />
+        </label>
+        <div>
+          <Button onClick={() => void save()}>
+            <Save className="mr-2 h-4 w-4" /> Save
+          </Button>
+        </div>
+
+        {selected && versions && versions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground"><History className="h-4 w-4" /> History</h4>
+            {versions.map(version => (
+              <div key={version._id} className="flex items-center justify-between rounded-md bg-white/5 px-3 py-2 text-xs">
+                <span>
+                  v{version.version} · {new Date(version.createdAt).toLocaleString()} · {version.patterns.length} patterns{version.enabled ? "" : " · disabled"}
+                </span>
+                {version.version !== selected.version && (
+                  <Button size="sm" variant="ghost" onClick={() => void run(
+                    () => restoreVersion({ intentId: selected._id, version: version.version }),
+                    `Restored v${version.version}`,
+                  )}>
+                    <RotateCcw className="mr-1 h-3 w-3" /> Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Live test */}
+        <div className="space-y-2 pt-4 border-t border-white/10">
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground"><FlaskConical className="h-4 w-4" /> Test an utterance</h4>
+          <div className="flex gap-2">
+            <Input
+              value={utterance}
+              onChange={e => setUtterance(e.target.value)}
+              onKeyDown={e => e.key === "Enter" && void runTest()}
+              placeholder="What's the weather like in London?"
+              className="bg-white/5 border-white/10 flex-1"
+            />
+            <Button onClick={() => void runTest()} disabled={isTesting || !utterance.trim()}>
+              {isTesting ? <LoaderCircle className="h-4 w-4 animate-spin" /> : "Test"}
+            </Button>
+          </div>
+          {testResult && (
+            <div className="rounded-md bg-white/5 p-3 text-sm space-y-1">
+              <div><span className="text-muted-foreground">Intent:</span> {testResult.category} ({(testResult.confidence * 100).toFixed(0)}%)</div>
+              {testResult.entities.length > 0 && (
+                <div>
+                  <span className="text-muted-foreground">Entities:</span>{" "}
+                  {testResult.entities.map(e => {
+                    const normalized = e.type === "time" && typeof e.normalizedValue === "number"
+                      ? new Date(e.normalizedValue).toLocaleString()
+                      : e.normalizedValue;
+                    return `${e.type}="${e.value}"${normalized !== undefined ? ` → ${normalized}` : ""}`;
+                  }).join(", ")}
+                </div>
+              )}
+              {testResult.alternatives.length > 0 && (
+                <div>
+                  <span className="text-muted-foreground">Runners-up:</span>{" "}
+                  {testResult.alternatives.map(a => `${a.category} (${(a.confidence * 100).toFixed(0)}%)`).join(", ")}
+                </div>
+              )}
+              {testResult.explanation.map(score => (
+                <div key={score.category} className="text-xs text-muted-foreground">
+                  {score.category}: {score.contributions.map(c => `"${c.pattern}" +${c.weight.toFixed(2)}`).join(", ")}
+                  {" "}→ {(score.confidence * 100).toFixed(0)}% (needs {(score.requiredConfidence * 100).toFixed(0)}%)
+                </div>
+              ))}
+              {testResult.routing && (
+                <div>
+                  <span className="text-muted-foreground">Route:</span> {testResult.routing.route}
+                  {" "}<span className="text-xs text-muted-foreground">({testResult.routing.reason})</span>
+                </div>
+              )}
+              {testResult.sentiment && (
+                <>
+                  <div className="pt-1">
+                    <span className="text-muted-foreground">Emotion:</span> {testResult.sentiment.sentiment.emotion}
+                    {" "}<span className="text-xs text-muted-foreground">by {testResult.sentiment.sentiment.model} v{testResult.sentiment.sentiment.modelVersion}</span>
+                    {" "}({(testResult.sentiment.sentiment.confidence * 100).toFixed(0)}%, valence {testResult.sentiment.sentiment.valence.toFixed(2)}, arousal {testResult.sentiment.sentiment.arousal.toFixed(2)})
+                  </div>
+                  {testResult.sentiment.contributions.map((c, i) => (
+                    <div key={i} className="text-xs text-muted-foreground">
+                      "{c.token}" → {c.emotion}{c.emotion !== c.keywordEmotion ? ` (was ${c.keywordEmotion})` : ""} +{c.weight.toFixed(2)}
+                      {c.reasons.length > 0 && ` [${c.reasons.join(", ")}]`}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <SafetyReviewPanel />
+      <ModerationRulesPanel />
+      <SentimentModelsPanel />
+      <FeedbackReport />
+    </div>
+  );
+}
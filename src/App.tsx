@@ -1,13 +1,22 @@
+import { useState } from "react";
 import { Authenticated, Unauthenticated, useQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { SignInForm } from "./SignInForm";
 import { SignOutButton } from "./SignOutButton";
 import { Toaster } from "sonner";
 import VoiceAssistant from "./VoiceAssistant";
-import { Bot, LoaderCircle } from "lucide-react";
+import AdminPanel from "./AdminPanel";
+import { Bot, LoaderCircle, MessageCircle, Wrench } from "lucide-react";
+import { Button } from "./components/ui/button";
 import { motion } from "framer-motion";
 
+type View = "assistant" | "admin";
+
 export default function App() {
+  const loggedInUser = useQuery(api.auth.loggedInUser);
+  const [view, setView] = useState<View>("assistant");
+  const isAdmin = loggedInUser?.role === "admin";
+
   return (
     <div className="min-h-screen flex flex-col bg-background text-foreground aurora-background">
       <header className="sticky top-0 z-50 w-full border-b border-white/10 bg-background/50 backdrop-blur-lg">
@@ -23,18 +32,27 @@ export default function App() {
             </div>
             <h2 className="text-lg sm:text-xl font-semibold tracking-tight">Celcius : AI Voice Assistant </h2>
           </motion.div>
-          <SignOutButton />
+          <div className="flex items-center gap-2">
+            {isAdmin && (
+              <Button variant="ghost" size="sm" onClick={() => setView(view === "admin" ? "assistant" : "admin")}>
+                {view === "admin"
+                  ? <><MessageCircle className="mr-2 h-4 w-4" /> Assistant</>
+                  : <><Wrench className="mr-2 h-4 w-4" /> Admin</>}
+              </Button>
+            )}
+            <SignOutButton />
+          </div>
         </div>
       </header>
       <main className="flex-1 flex flex-col items-center justify-center p-2 sm:p-4 lg:p-6">
-        <Content />
+        <Content view={isAdmin ? view : "assistant"} />
       </main>
       <Toaster theme="dark" position="top-right" />
     </div>
   );
 }
 
-function Content() {
+function Content({ view }: { view: View }) {
   const loggedInUser = useQuery(api.auth.loggedInUser);
 
   if (loggedInUser === undefined) {
@@ -66,7 +84,7 @@ function Content() {
           animate={{ opacity: 1, scale: 1 }}
           transition={{ duration: 0.5 }}
         >
-          <VoiceAssistant userEmail={loggedInUser?.email} />
+          {view === "admin" ? <AdminPanel /> : <VoiceAssistant userEmail={loggedInUser?.email} />}
         </motion.div>
       </Authenticated>
     </>
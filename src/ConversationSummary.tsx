@@ -0,0 +1,35 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { ChevronDown, ChevronRight, ScrollText } from "lucide-react";
+
+// The rolling summary of a long session's earlier messages, collapsed to a
+// single line until opened.
+export default function ConversationSummary({ sessionId }: { sessionId: string }) {
+  const summary = useQuery(api.summaries.forSession, { sessionId });
+  const [open, setOpen] = useState(false);
+  if (!summary) return null;
+
+  return (
+    <div className="mb-3 rounded-lg border border-white/10 bg-white/5 text-sm">
+      <button
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-muted-foreground hover:text-foreground"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+        <ScrollText className="h-4 w-4 flex-shrink-0" />
+        <span className="font-semibold">Earlier in this conversation</span>
+        {!open && <span className="min-w-0 flex-1 truncate text-xs">{summary.text}</span>}
+      </button>
+      {open && (
+        <div className="space-y-1 px-3 pb-3">
+          <p>{summary.text}</p>
+          {summary.updatedAt && (
+            <p className="text-xs text-muted-foreground">Updated {new Date(summary.updatedAt).toLocaleString()}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useConvex, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Download, Target } from "lucide-react";
+
+type Confusion = {
+  labelled: number;
+  accuracy: number | null;
+  labels: string[];
+  matrix: Record<string, Record<string, number>>;
+};
+
+function formatRate(rate: number | null) {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+function ConfusionMatrix({ title, confusion }: { title: string; confusion: Confusion }) {
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="flex items-baseline justify-between">
+        <h4 className="text-sm font-semibold">{title}</h4>
+        <span className="text-sm">
+          <span className="font-bold">{formatRate(confusion.accuracy)}</span>
+          <span className="text-xs text-muted-foreground"> of {confusion.labelled} labelled</span>
+        </span>
+      </div>
+      {confusion.labelled > 0 && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left font-normal text-muted-foreground">actual ↓ / detected →</th>
+                {confusion.labels.map(label => (
+                  <th key={label} className="px-2 py-1 font-normal text-muted-foreground">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {confusion.labels.map(actual => (
+                <tr key={actual}>
+                  <td className="px-2 py-1 text-muted-foreground">{actual}</td>
+                  {confusion.labels.map(predicted => {
+                    const count = confusion.matrix[actual]?.[predicted] ?? 0;
+                    return (
+                      <td
+                        key={predicted}
+                        className={`px-2 py-1 text-center ${count === 0 ? "text-muted-foreground/40" : actual === predicted ? "bg-green-500/20" : "bg-red-500/20"}`}
+                      >
+                        {count}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Sentiment and intent accuracy measured against user corrections.
+export default function FeedbackReport() {
+  const report = useQuery(api.feedback.report);
+  const convex = useConvex();
+
+  const download = async () => {
+    try {
+      const examples = await convex.query(api.feedback.exportDataset, {});
+      const jsonl = examples.map(example => JSON.stringify(example)).join("\n");
+      const url = URL.createObjectURL(new Blob([jsonl], { type: "application/x-ndjson" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "labelled-utterances.jsonl";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to export labelled data");
+    }
+  };
+
+  if (!report) return null;
+
+  return (
+    <div className="lg:col-span-3 flex flex-col gap-4 rounded-lg border border-white/10 bg-black/20 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold"><Target className="h-4 w-4" /> Accuracy from user feedback</h3>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-muted-foreground">
+            Replies rated helpful: <span className="font-bold text-foreground">{formatRate(report.replies.positiveRate)}</span> of {report.replies.rated}
+          </span>
+          <Button size="sm" variant="secondary" onClick={() => void download()}>
+            <Download className="mr-1 h-4 w-4" /> Export labels
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ConfusionMatrix title="Sentiment" confusion={report.sentiment} />
+        <ConfusionMatrix title="Intent" confusion={report.intent} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { Brain, Check, Pencil, Trash2, X } from "lucide-react";
+import type { MemoryKind } from "../convex/validators";
+
+const KIND_LABELS: Record<MemoryKind, string> = {
+  name: "Name",
+  location: "Lives in",
+  genre: "Music",
+  like: "Likes",
+  note: "Note",
+};
+
+// What the assistant remembers about the signed-in user across
+// conversations, with a way to correct or forget each memory.
+export default function MemoryPanel() {
+  const memories = useQuery(api.memories.list);
+  const update = useMutation(api.memories.update);
+  const forget = useMutation(api.memories.forget);
+  const forgetAll = useMutation(api.memories.forgetAll);
+  const [editing, setEditing] = useState<{ memoryId: Id<"userMemories">; value: string } | null>(null);
+
+  const run = async (work: () => Promise<unknown>, success: string) => {
+    try {
+      await work();
+      toast.success(success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    }
+  };
+
+  const save = () => editing && run(async () => {
+    await update(editing);
+    setEditing(null);
+  }, "Memory updated");
+
+  const clear = () => {
+    if (!window.confirm("Forget everything the assistant remembers about you?")) return;
+    void run(() => forgetAll(), "Memories cleared");
+  };
+
+  if (!memories) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 border border-white/10 p-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-muted-foreground"><Brain className="h-4 w-4" /> Memory</h3>
+        {memories.length > 0 && (
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={clear}>Forget all</Button>
+        )}
+      </div>
+      {memories.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Tell the assistant your name, where you live or what you like and it will remember it here.</p>
+      ) : (
+        <div className="space-y-1">
+          {memories.map(memory => (
+            <div key={memory._id} className="flex items-center gap-2 text-xs">
+              <span className="w-14 flex-shrink-0 text-muted-foreground">{KIND_LABELS[memory.kind]}</span>
+              {editing?.memoryId === memory._id ? (
+                <>
+                  <Input
+                    value={editing.value}
+                    onChange={e => setEditing({ ...editing, value: e.target.value })}
+                    onKeyDown={e => e.key === "Enter" && void save()}
+                    className="h-7 flex-1 bg-white/5 border-white/10 text-xs"
+                    autoFocus
+                  />
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => void save()} aria-label="Save">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setEditing(null)} aria-label="Cancel">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 truncate" title={memory.value}>{memory.value}</span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => setEditing({ memoryId: memory._id, value: memory.value })}
+                    aria-label="Correct"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => void run(() => forget({ memoryId: memory._id }), "Forgotten")}
+                    aria-label="Forget"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Check, ThumbsDown, ThumbsUp, X } from "lucide-react";
+
+const selectClass = "rounded-md border border-white/10 bg-black/30 px-2 py-1 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+// Thumbs up/down under a message bubble. On the user's own messages thumbs
+// down opens "that's not what I meant", to relabel the detected emotion and
+// intent.
+export default function MessageFeedback({
+  message,
+  feedback,
+  options,
+}: {
+  message: Doc<"messages">;
+  feedback?: Doc<"messageFeedback">;
+  options?: { emotions: string[]; intents: string[] };
+}) {
+  const rate = useMutation(api.feedback.rate);
+  const correct = useMutation(api.feedback.correct);
+  const [correcting, setCorrecting] = useState(false);
+  const [emotion, setEmotion] = useState(feedback?.emotionLabel ?? message.sentiment?.emotion ?? "");
+  const [intent, setIntent] = useState(feedback?.intentLabel ?? message.intent?.category ?? "");
+
+  const canCorrect = message.type === "user" && options !== undefined;
+  const relabelled = (feedback?.emotionLabel !== undefined && feedback.emotionLabel !== message.sentiment?.emotion) ||
+    (feedback?.intentLabel !== undefined && feedback.intentLabel !== message.intent?.category);
+
+  const submitRating = async (rating: "up" | "down") => {
+    try {
+      await rate({ messageId: message._id, rating });
+      if (rating === "down" && canCorrect) setCorrecting(true);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save feedback");
+    }
+  };
+
+  const submitCorrection = async () => {
+    try {
+      await correct({ messageId: message._id, emotion: emotion || undefined, intent: intent || undefined });
+      setCorrecting(false);
+      toast.success("Thanks, that helps me learn");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to save correction");
+    }
+  };
+
+  if (correcting && options) {
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        <span className="opacity-70">That's not what I meant:</span>
+        <select value={emotion} onChange={e => setEmotion(e.target.value)} className={selectClass} aria-label="Emotion">
+          {options.emotions.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        <select value={intent} onChange={e => setIntent(e.target.value)} className={selectClass} aria-label="Intent">
+          {options.intents.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => void submitCorrection()}>
+          <Check className="h-3 w-3" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setCorrecting(false)}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 flex items-center gap-1 text-xs opacity-60">
+      <Button
+        size="icon"
+        variant="ghost"
+        className={`h-6 w-6 ${feedback?.rating === "up" ? "opacity-100 text-green-300" : ""}`}
+        title={message.type === "user" ? "Understood correctly" : "Good reply"}
+        onClick={() => void submitRating("up")}
+      >
+        <ThumbsUp className="h-3 w-3" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className={`h-6 w-6 ${feedback?.rating === "down" ? "opacity-100 text-red-300" : ""}`}
+        title={message.type === "user" ? "Not what I meant" : "Bad reply"}
+        onClick={() => void submitRating("down")}
+      >
+        <ThumbsDown className="h-3 w-3" />
+      </Button>
+      {canCorrect && (
+        <button className="ml-1 underline-offset-2 hover:underline" onClick={() => setCorrecting(true)}>
+          {relabelled ? "Relabelled" : "That's not what I meant"}
+        </button>
+      )}
+    </div>
+  );
+}
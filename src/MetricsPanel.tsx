@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Button } from "./components/ui/button";
+import { Gauge } from "lucide-react";
+
+type Period = "hour" | "day" | "week";
+
+const PERIODS: Array<{ value: Period; label: string }> = [
+  { value: "hour", label: "1h" },
+  { value: "day", label: "24h" },
+  { value: "week", label: "7d" },
+];
+
+function formatMs(ms: number | null) {
+  if (ms === null) return "–";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+function formatRate(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+// Response latency percentiles and fallback rates for the signed-in user.
+export default function MetricsPanel() {
+  const [period, setPeriod] = useState<Period>("day");
+  const summary = useQuery(api.metrics.summary, { window: period });
+  if (!summary) return null;
+
+  const latencies = [
+    { label: "Total", value: summary.latency.total },
+    { label: "First audio", value: summary.latency.timeToFirstAudio },
+    { label: "Response", value: summary.latency.response },
+  ];
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 border border-white/10 p-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-muted-foreground"><Gauge className="h-4 w-4" /> Performance</h3>
+        <div className="flex gap-1">
+          {PERIODS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={option.value === period ? "default" : "ghost"}
+              className="h-6 px-2 text-xs"
+              onClick={() => setPeriod(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {summary.turns === 0 ? (
+        <p className="text-muted-foreground">No turns in this period.</p>
+      ) : (
+        <>
+          <table className="w-full text-left">
+            <thead className="text-xs text-muted-foreground">
+              <tr>
+                <th className="font-normal"></th>
+                <th className="font-normal text-right">p50</th>
+                <th className="font-normal text-right">p95</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latencies.map(latency => (
+                <tr key={latency.label}>
+                  <td className="text-muted-foreground">{latency.label}</td>
+                  <td className="text-right font-medium">{formatMs(latency.value.p50)}</td>
+                  <td className="text-right font-medium">{formatMs(latency.value.p95)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="font-bold">{summary.turns}</div>
+              <div className="text-xs text-muted-foreground">Turns</div>
+            </div>
+            <div>
+              <div className="font-bold">{formatRate(summary.providerFailoverRate)}</div>
+              <div className="text-xs text-muted-foreground">Failover</div>
+            </div>
+            <div>
+              <div className="font-bold">{formatRate(summary.fallbackRate)}</div>
+              <div className="text-xs text-muted-foreground">Fallback</div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
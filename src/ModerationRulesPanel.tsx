@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { Pencil, Plus, Save, ShieldCheck, Trash2, X } from "lucide-react";
+import type { ModerationAction, ModerationKind } from "../convex/moderation";
+
+const selectClass = "rounded-md border border-white/10 bg-black/30 px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const KINDS: Array<{ value: ModerationKind; label: string; actions: ModerationAction[] }> = [
+  { value: "injection", label: "Prompt injection", actions: ["flag", "block"] },
+  { value: "pii", label: "Personal data", actions: ["redact"] },
+  { value: "blocklist", label: "Output blocklist", actions: ["redact", "block"] },
+];
+
+type Draft = {
+  ruleId?: Id<"moderationRules">;
+  kind: ModerationKind;
+  name: string;
+  pattern: string;
+  action: ModerationAction;
+  replacement: string;
+};
+
+const EMPTY_DRAFT: Draft = { kind: "injection", name: "", pattern: "", action: "flag", replacement: "" };
+
+function draftOf(rule: Doc<"moderationRules">): Draft {
+  return { ruleId: rule._id, kind: rule.kind, name: rule.name, pattern: rule.pattern, action: rule.action, replacement: rule.replacement ?? "" };
+}
+
+// The rules applied around LLM calls, and a box to try text against them.
+export default function ModerationRulesPanel() {
+  const rules = useQuery(api.moderation.list);
+  const createRule = useMutation(api.moderation.create);
+  const updateRule = useMutation(api.moderation.update);
+  const setEnabled = useMutation(api.moderation.setEnabled);
+  const removeRule = useMutation(api.moderation.remove);
+
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [sample, setSample] = useState("");
+  const result = useQuery(api.moderation.test, sample.trim() ? { text: sample } : "skip");
+
+  const run = async (work: () => Promise<unknown>, success: string) => {
+    try {
+      await work();
+      toast.success(success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    }
+  };
+
+  const actions = KINDS.find(kind => kind.value === draft.kind)!.actions;
+
+  const save = () => run(async () => {
+    const { ruleId, replacement, ...fields } = draft;
+    const args = { ...fields, replacement: draft.action === "redact" ? replacement : undefined };
+    if (ruleId) {
+      await updateRule({ ruleId, ...args });
+    } else {
+      await createRule(args);
+    }
+    setDraft(EMPTY_DRAFT);
+  }, draft.ruleId ? "Rule updated" : "Rule added");
+
+  if (!rules) return null;
+
+  return (
+    <div className="lg:col-span-3 grid grid-cols-1 lg:grid-cols-3 gap-6 rounded-lg border border-white/10 bg-black/20 p-4">
+      <div className="lg:col-span-2 flex flex-col gap-3 min-w-0">
+        <h3 className="flex items-center gap-2 font-semibold"><ShieldCheck className="h-4 w-4" /> Moderation rules</h3>
+        {KINDS.map(kind => {
+          const ofKind = rules.filter(rule => rule.kind === kind.value);
+          return (
+            <div key={kind.value} className="space-y-1">
+              <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{kind.label}</div>
+              {ofKind.length === 0 && <p className="text-xs text-muted-foreground">No rules.</p>}
+              {ofKind.map(rule => (
+                <div key={rule._id} className="flex items-center gap-2 rounded-md bg-white/5 px-3 py-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={e => void run(
+                      () => setEnabled({ ruleId: rule._id, enabled: e.target.checked }),
+                      e.target.checked ? "Rule enabled" : "Rule disabled",
+                    )}
+                    aria-label={`Enable ${rule.name}`}
+                  />
+                  <div className={`min-w-0 flex-1 ${rule.enabled ? "" : "opacity-50"}`}>
+                    <div>
+                      <span className="font-semibold">{rule.name}</span>
+                      <span className="text-muted-foreground"> · {rule.action}{rule.action === "redact" && rule.replacement ? ` → ${rule.replacement}` : ""}</span>
+                    </div>
+                    <code className="block truncate text-muted-foreground" title={rule.pattern}>{rule.pattern}</code>
+                  </div>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setDraft(draftOf(rule))} aria-label="Edit rule">
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => void run(
+                    () => removeRule({ ruleId: rule._id }),
+                    "Rule removed",
+                  )} aria-label="Remove rule">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <h3 className="font-semibold">{draft.ruleId ? "Edit rule" : "New rule"}</h3>
+        <div className="flex gap-2">
+          <select
+            value={draft.kind}
+            onChange={e => {
+              const kind = e.target.value as ModerationKind;
+              setDraft({ ...draft, kind, action: KINDS.find(k => k.value === kind)!.actions[0] });
+            }}
+            className={selectClass}
+            aria-label="Kind"
+            disabled={!!draft.ruleId}
+          >
+            {KINDS.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+          </select>
+          <select value={draft.action} onChange={e => setDraft({ ...draft, action: e.target.value as ModerationAction })} className={selectClass} aria-label="Action">
+            {actions.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+        </div>
+        <Input
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Name"
+          className="bg-white/5 border-white/10"
+        />
+        <Input
+          value={draft.pattern}
+          onChange={e => setDraft({ ...draft, pattern: e.target.value })}
+          placeholder="Pattern (case-insensitive regular expression)"
+          className="bg-white/5 border-white/10 font-mono text-xs"
+        />
+        {draft.action === "redact" && (
+          <Input
+            value={draft.replacement}
+            onChange={e => setDraft({ ...draft, replacement: e.target.value })}
+            placeholder="Replacement, e.g. [email]"
+            className="bg-white/5 border-white/10"
+          />
+        )}
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => void save()} disabled={!draft.name.trim() || !draft.pattern.trim()}>
+            {draft.ruleId ? <Save className="mr-1 h-4 w-4" /> : <Plus className="mr-1 h-4 w-4" />}
+            {draft.ruleId ? "Save rule" : "Add rule"}
+          </Button>
+          {draft.ruleId && (
+            <Button size="sm" variant="ghost" onClick={() => setDraft(EMPTY_DRAFT)}>
+              <X className="mr-1 h-4 w-4" /> Cancel
+            </Button>
+          )}
+        </div>
+
+        <h3 className="mt-2 font-semibold">Try the rules</h3>
+        <Input
+          value={sample}
+          onChange={e => setSample(e.target.value)}
+          placeholder="Text to check"
+          className="bg-white/5 border-white/10"
+        />
+        {result && (
+          <div className="space-y-2 rounded-md bg-white/5 p-3 text-xs">
+            <div>
+              <div className="font-semibold">As user input{result.input.record.blocked && <span className="text-red-300"> · blocked</span>}</div>
+              <div className="text-muted-foreground">Sent to providers as: {result.input.text}</div>
+              {result.input.record.flagged.length > 0 && <div>Injection: {result.input.record.flagged.join(", ")}</div>}
+              {result.input.record.redactions.length > 0 && (
+                <div>Redacted: {result.input.record.redactions.map(r => `${r.rule} ×${r.count}`).join(", ")}</div>
+              )}
+            </div>
+            <div>
+              <div className="font-semibold">As a reply{result.output.record.blocked && <span className="text-red-300"> · blocked</span>}</div>
+              {!result.output.record.blocked && <div className="text-muted-foreground">Spoken as: {result.output.text}</div>}
+              {result.output.record.flagged.length > 0 && <div>Blocked by: {result.output.record.flagged.join(", ")}</div>}
+              {result.output.record.redactions.length > 0 && (
+                <div>Redacted: {result.output.record.redactions.map(r => `${r.rule} ×${r.count}`).join(", ")}</div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import type { MoodSummary } from "../convex/mood";
+
+const WIDTH = 280;
+const HEIGHT = 100;
+const PADDING = 6;
+
+const EMOTION_COLORS: Record<string, string> = {
+  happy: "bg-yellow-300",
+  sad: "bg-blue-300",
+  angry: "bg-red-400",
+  fear: "bg-purple-300",
+  surprise: "bg-green-300",
+  neutral: "bg-gray-400",
+};
+
+// Splits a series into runs of consecutive buckets with data, so days
+// without messages show as gaps rather than as interpolated lines.
+function segments(values: Array<number | null>, toY: (value: number) => number) {
+  const step = values.length > 1 ? (WIDTH - PADDING * 2) / (values.length - 1) : 0;
+  const runs: string[] = [];
+  let current: string[] = [];
+  values.forEach((value, i) => {
+    if (value === null) {
+      if (current.length > 0) runs.push(current.join(" "));
+      current = [];
+      return;
+    }
+    current.push(`${PADDING + i * step},${toY(value)}`);
+  });
+  if (current.length > 0) runs.push(current.join(" "));
+  return runs;
+}
+
+// Valence (solid) and arousal (dashed) per day or week, and the share of
+// each detected emotion over the whole range.
+export default function MoodChart({ summary }: { summary: MoodSummary }) {
+  const valenceY = (value: number) => PADDING + ((1 - value) / 2) * (HEIGHT - PADDING * 2);
+  const arousalY = (value: number) => PADDING + (1 - value) * (HEIGHT - PADDING * 2);
+  const valence = segments(summary.buckets.map(bucket => bucket.valence), valenceY);
+  const arousal = segments(summary.buckets.map(bucket => bucket.arousal), arousalY);
+  const emotions = Object.entries(summary.emotions).sort(([, a], [, b]) => b - a);
+  const first = summary.buckets[0];
+  const last = summary.buckets[summary.buckets.length - 1];
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString([], { month: "short", day: "numeric" });
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24" role="img" aria-label="Mood over time">
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={valenceY(0)} y2={valenceY(0)} className="stroke-white/20" strokeDasharray="2 3" />
+        {arousal.map((points, i) => (
+          <polyline key={`a${i}`} points={points} fill="none" className="stroke-purple-300/60" strokeWidth={1.5} strokeDasharray="4 3" />
+        ))}
+        {valence.map((points, i) => (
+          <polyline key={`v${i}`} points={points} fill="none" className="stroke-brand-blue" strokeWidth={2} strokeLinejoin="round" />
+        ))}
+        {valence.flatMap(points => points.split(" ")).map((point, i) => {
+          const [x, y] = point.split(",");
+          return <circle key={i} cx={x} cy={y} r={2} className="fill-brand-blue" />;
+        })}
+      </svg>
+      {first && last && (
+        <div className="flex justify-between text-[10px] text-muted-foreground">
+          <span>{formatDate(first.start)}</span>
+          <span><span className="text-brand-blue">━</span> valence <span className="text-purple-300">┅</span> energy</span>
+          <span>{formatDate(last.start)}</span>
+        </div>
+      )}
+      {summary.messages > 0 && (
+        <>
+          <div className="flex h-2 overflow-hidden rounded-full">
+            {emotions.map(([emotion, count]) => (
+              <div
+                key={emotion}
+                className={EMOTION_COLORS[emotion] ?? "bg-gray-500"}
+                style={{ width: `${(count / summary.messages) * 100}%` }}
+                title={`${emotion}: ${count}`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            {emotions.map(([emotion, count]) => (
+              <span key={emotion} className="flex items-center gap-1">
+                <span className={`inline-block h-2 w-2 rounded-full ${EMOTION_COLORS[emotion] ?? "bg-gray-500"}`} />
+                {emotion} {Math.round((count / summary.messages) * 100)}%
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Button } from "./components/ui/button";
+import { HeartPulse } from "lucide-react";
+import type { MoodRange } from "../convex/mood";
+import MoodChart from "./MoodChart";
+
+const RANGES: Array<{ value: MoodRange; label: string }> = [
+  { value: "week", label: "7d" },
+  { value: "month", label: "30d" },
+  { value: "quarter", label: "3m" },
+];
+
+const TRENDS = {
+  improving: "Improving",
+  declining: "Lower lately",
+  steady: "Steady",
+};
+
+function formatValence(valence: number | null) {
+  if (valence === null) return "–";
+  return `${valence > 0 ? "+" : ""}${valence.toFixed(2)}`;
+}
+
+// The signed-in user's mood over time, from the sentiment of their messages.
+export default function MoodPanel() {
+  const [range, setRange] = useState<MoodRange>("week");
+  const summary = useQuery(api.mood.timeline, { range, timezoneOffset: new Date().getTimezoneOffset() });
+  if (!summary) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 border border-white/10 p-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-muted-foreground"><HeartPulse className="h-4 w-4" /> Mood</h3>
+        <div className="flex gap-1">
+          {RANGES.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={option.value === range ? "default" : "ghost"}
+              className="h-6 px-2 text-xs"
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {summary.messages === 0 ? (
+        <p className="text-xs text-muted-foreground">Talk to the assistant and your mood over time will show up here.</p>
+      ) : (
+        <>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Valence <span className="font-semibold text-foreground">{formatValence(summary.valence)}</span></span>
+            <span>{summary.messages} messages</span>
+            {summary.trend && <span>{TRENDS[summary.trend]}</span>}
+          </div>
+          <MoodChart summary={summary} />
+        </>
+      )}
+    </div>
+  );
+}
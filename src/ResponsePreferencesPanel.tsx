@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Save } from "lucide-react";
+import { ResponsePreferences } from "../convex/validators";
+
+const STYLES: Array<{ value: ResponsePreferences["responseStyle"]; label: string }> = [
+  { value: "empathetic", label: "Empathetic" },
+  { value: "professional", label: "Professional" },
+  { value: "casual", label: "Casual" },
+];
+
+const VERBOSITIES: Array<{ value: ResponsePreferences["verbosity"]; label: string }> = [
+  { value: "brief", label: "Brief" },
+  { value: "detailed", label: "Detailed" },
+];
+
+// Default tone and length of replies. Saving also applies them to the current
+// session, overriding anything changed by voice.
+export default function ResponsePreferencesPanel({ sessionId }: { sessionId: string }) {
+  const preferences = useQuery(api.preferences.get, { sessionId });
+  const savePreferences = useMutation(api.preferences.save);
+  const [draft, setDraft] = useState<ResponsePreferences | null>(null);
+
+  useEffect(() => {
+    if (preferences) setDraft(preferences.session);
+  }, [preferences?.session.responseStyle, preferences?.session.verbosity]);
+
+  if (!draft) return null;
+
+  const save = async () => {
+    try {
+      await savePreferences({ ...draft, sessionId });
+      toast.success("Response preferences saved");
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save response preferences");
+    }
+  };
+
+  const choice = <T extends string>(options: Array<{ value: T; label: string }>, selected: T, onSelect: (value: T) => void) => (
+    <div className="flex gap-1">
+      {options.map(option => (
+        <Button
+          key={option.value}
+          size="sm"
+          variant={option.value === selected ? "default" : "ghost"}
+          className="flex-1"
+          onClick={() => onSelect(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 border border-white/10 p-4">
+      <h3 className="font-semibold text-muted-foreground">Responses</h3>
+      <div className="space-y-1 text-sm">
+        <span className="text-muted-foreground">Tone</span>
+        {choice(STYLES, draft.responseStyle, responseStyle => setDraft({ ...draft, responseStyle }))}
+      </div>
+      <div className="space-y-1 text-sm">
+        <span className="text-muted-foreground">Length</span>
+        {choice(VERBOSITIES, draft.verbosity, verbosity => setDraft({ ...draft, verbosity }))}
+      </div>
+      <p className="text-xs text-muted-foreground">You can also say things like "be more brief" to change this conversation only.</p>
+      <Button size="sm" onClick={() => void save()}>
+        <Save className="mr-1 h-4 w-4" /> Save as default
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { Check, LifeBuoy, Save, ShieldAlert, Trash2 } from "lucide-react";
+
+const textareaClass = "flex w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+const selectClass = "rounded-md border border-white/10 bg-black/30 px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+type Topic = "crisis" | "abuse";
+
+// Turns the safety layer escalated, for review, and the helpline text it
+// quotes per region.
+export default function SafetyReviewPanel() {
+  const [status, setStatus] = useState<"open" | "reviewed">("open");
+  const escalations = useQuery(api.safety.listEscalations, { status });
+  const helplines = useQuery(api.safety.listHelplines);
+  const markReviewed = useMutation(api.safety.markReviewed);
+  const saveHelpline = useMutation(api.safety.saveHelpline);
+  const removeHelpline = useMutation(api.safety.removeHelpline);
+
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<{ region: string; topic: Topic; text: string }>({ region: "", topic: "crisis", text: "" });
+
+  const run = async (work: () => Promise<unknown>, success: string) => {
+    try {
+      await work();
+      toast.success(success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    }
+  };
+
+  const review = (escalationId: Id<"safetyEscalations">) => run(
+    () => markReviewed({ escalationId, note: notes[escalationId] }),
+    "Marked as reviewed",
+  );
+
+  const save = () => run(async () => {
+    await saveHelpline(draft);
+    setDraft({ region: "", topic: "crisis", text: "" });
+  }, "Helpline saved");
+
+  if (!escalations || !helplines) return null;
+
+  return (
+    <div className="lg:col-span-3 grid grid-cols-1 lg:grid-cols-3 gap-6 rounded-lg border border-white/10 bg-black/20 p-4">
+      <div className="lg:col-span-2 flex flex-col gap-3 min-w-0">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-semibold"><ShieldAlert className="h-4 w-4" /> Safety escalations</h3>
+          <div className="flex gap-1">
+            {(["open", "reviewed"] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === status ? "default" : "ghost"}
+                className="h-7 px-2 text-xs capitalize"
+                onClick={() => setStatus(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {escalations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{status === "open" ? "Nothing waiting for review." : "No reviewed escalations yet."}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto custom-scrollbar space-y-2">
+            {escalations.map(escalation => (
+              <div key={escalation._id} className="space-y-2 rounded-md bg-white/5 p-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    <span className={escalation.level === "high" ? "font-semibold text-red-300" : "font-semibold text-amber-300"}>{escalation.level}</span>
+                    {" · "}{escalation.categories.join(", ")} · region {escalation.region}
+                  </span>
+                  <span>{new Date(escalation.createdAt).toLocaleString()}</span>
+                </div>
+                <p>{escalation.text ?? <span className="text-muted-foreground">Message deleted</span>}</p>
+                <div className="text-xs text-muted-foreground">Matched: {escalation.matches.map(match => `"${match}"`).join(", ")}</div>
+                {escalation.status === "open" ? (
+                  <div className="flex gap-2">
+                    <Input
+                      value={notes[escalation._id] ?? ""}
+                      onChange={e => setNotes({ ...notes, [escalation._id]: e.target.value })}
+                      placeholder="Review note (optional)"
+                      className="h-8 bg-white/5 border-white/10 text-xs"
+                    />
+                    <Button size="sm" variant="secondary" onClick={() => void review(escalation._id)}>
+                      <Check className="mr-1 h-4 w-4" /> Reviewed
+                    </Button>
+                  </div>
+                ) : (
+                  escalation.note && <div className="text-xs">Note: {escalation.note}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <h3 className="flex items-center gap-2 font-semibold"><LifeBuoy className="h-4 w-4" /> Helplines</h3>
+        <div className="space-y-2">
+          {helplines.map(helpline => (
+            <div key={helpline._id} className="rounded-md bg-white/5 px-3 py-2 text-xs">
+              <div className="flex items-center justify-between">
+                <button
+                  className="font-semibold hover:underline"
+                  onClick={() => setDraft({ region: helpline.region, topic: helpline.topic, text: helpline.text })}
+                >
+                  {helpline.region === "*" ? "Everywhere else" : helpline.region} · {helpline.topic}
+                </button>
+                {helpline.region !== "*" && (
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => void run(
+                    () => removeHelpline({ helplineId: helpline._id }),
+                    "Helpline removed",
+                  )}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <div className="text-muted-foreground">{helpline.text}</div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={draft.region}
+            onChange={e => setDraft({ ...draft, region: e.target.value })}
+            placeholder="Region, e.g. AU"
+            className="bg-white/5 border-white/10 w-32"
+          />
+          <select value={draft.topic} onChange={e => setDraft({ ...draft, topic: e.target.value as Topic })} className={selectClass} aria-label="Topic">
+            <option value="crisis">crisis</option>
+            <option value="abuse">abuse</option>
+          </select>
+        </div>
+        <textarea
+          rows={3}
+          value={draft.text}
+          onChange={e => setDraft({ ...draft, text: e.target.value })}
+          placeholder="You can call Lifeline on 13 11 14, any time."
+          className={textareaClass}
+        />
+        <div>
+          <Button size="sm" onClick={() => void save()} disabled={!draft.region.trim() || !draft.text.trim()}>
+            <Save className="mr-1 h-4 w-4" /> Save helpline
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
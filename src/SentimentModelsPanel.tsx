@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { FlaskConical, History, Plus, RotateCcw, Save, Smile, Trash2 } from "lucide-react";
+
+type SentimentModel = Doc<"sentimentModels"> & { status: "active" | "candidate" | "draft"; version: number };
+
+interface ModelDraft {
+  name: string;
+  locale: string;
+  emotionKeywords: string;
+  intensityModifiers: string;
+}
+
+const emptyDraft: ModelDraft = {
+  name: "",
+  locale: "",
+  emotionKeywords: "happy: \nsad: \nangry: \nfear: \nsurprise: \nneutral: ",
+  intensityModifiers: "",
+};
+
+// Emotions are edited one per line as "emotion: keyword, keyword" and
+// modifiers as "word: multiplier".
+const toDraft = (model: SentimentModel): ModelDraft => ({
+  name: model.name,
+  locale: model.locale ?? "",
+  emotionKeywords: Object.entries(model.emotionKeywords).map(([emotion, keywords]) => `${emotion}: ${keywords.join(", ")}`).join("\n"),
+  intensityModifiers: model.intensityModifiers.map(m => `${m.word}: ${m.multiplier}`).join("\n"),
+});
+
+const lines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean).map(line => {
+  const [key, rest = ""] = line.split(":");
+  return [key.trim(), rest.trim()] as const;
+});
+
+const fromDraft = (draft: ModelDraft) => ({
+  name: draft.name.trim(),
+  locale: draft.locale.trim() || undefined,
+  emotionKeywords: Object.fromEntries(lines(draft.emotionKeywords).map(([emotion, keywords]) => [
+    emotion,
+    keywords.split(",").map(keyword => keyword.trim()).filter(Boolean),
+  ])),
+  intensityModifiers: lines(draft.intensityModifiers).map(([word, multiplier]) => ({ word, multiplier: Number(multiplier) })),
+});
+
+const textareaClass = "flex w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const STATUS_STYLES: Record<SentimentModel["status"], string> = {
+  active: "text-green-300",
+  candidate: "text-amber-300",
+  draft: "text-muted-foreground",
+};
+
+function formatRate(rate: number | null) {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+// Shadow results of a candidate model next to the active one.
+function CandidateComparison({ modelId }: { modelId: Id<"sentimentModels"> }) {
+  const comparison = useQuery(api.sentimentModels.comparison, { candidateModelId: modelId });
+  if (!comparison) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground"><FlaskConical className="h-4 w-4" /> Shadow comparison</h4>
+      {comparison.compared === 0 ? (
+        <p className="text-xs text-muted-foreground">No messages analyzed yet. Results appear as users talk to the assistant.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <div><span className="text-muted-foreground">Messages:</span> {comparison.compared}</div>
+            <div><span className="text-muted-foreground">Agreement:</span> {formatRate(comparison.agreement)}</div>
+            <div><span className="text-muted-foreground">Valence Δ:</span> {comparison.meanValenceDelta?.toFixed(2) ?? "–"}</div>
+            <div>
+              <span className="text-muted-foreground">Accuracy:</span> {formatRate(comparison.primaryAccuracy)} → {formatRate(comparison.candidateAccuracy)}
+              <span className="text-xs text-muted-foreground"> ({comparison.labelled} labelled)</span>
+            </div>
+          </div>
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left font-normal text-muted-foreground">active ↓ / candidate →</th>
+                  {comparison.labels.map(label => (
+                    <th key={label} className="px-2 py-1 font-normal text-muted-foreground">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.labels.map(primary => (
+                  <tr key={primary}>
+                    <td className="px-2 py-1 text-muted-foreground">{primary}</td>
+                    {comparison.labels.map(candidate => {
+                      const count = comparison.matrix[primary]?.[candidate] ?? 0;
+                      return (
+                        <td
+                          key={candidate}
+                          className={`px-2 py-1 text-center ${count === 0 ? "text-muted-foreground/40" : primary === candidate ? "bg-green-500/20" : "bg-amber-500/20"}`}
+                        >
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Sentiment models per locale: edit keywords, try a model as a candidate
+// next to the active one, then promote it.
+export default function SentimentModelsPanel() {
+  const models = useQuery(api.sentimentModels.list);
+  const createModel = useMutation(api.sentimentModels.create);
+  const updateModel = useMutation(api.sentimentModels.update);
+  const setStatus = useMutation(api.sentimentModels.setStatus);
+  const removeModel = useMutation(api.sentimentModels.remove);
+  const restoreVersion = useMutation(api.sentimentModels.restoreVersion);
+
+  const [selectedId, setSelectedId] = useState<Id<"sentimentModels"> | null>(null);
+  const [draft, setDraft] = useState<ModelDraft>(emptyDraft);
+
+  const versions = useQuery(api.sentimentModels.listVersions, selectedId ? { modelId: selectedId } : "skip");
+  const selected = models?.find(model => model._id === selectedId);
+
+  const selectModel = (model: SentimentModel | null) => {
+    setSelectedId(model?._id ?? null);
+    setDraft(model ? toDraft(model) : emptyDraft);
+  };
+
+  const run = async (work: () => Promise<unknown>, success: string) => {
+    try {
+      await work();
+      toast.success(success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    }
+  };
+
+  const save = () => run(async () => {
+    if (selectedId) {
+      await updateModel({ modelId: selectedId, ...fromDraft(draft) });
+    } else {
+      setSelectedId(await createModel(fromDraft(draft)));
+    }
+  }, "Sentiment model saved");
+
+  const remove = (model: SentimentModel) => {
+    if (!window.confirm(`Delete the sentiment model "${model.name}"?`)) return;
+    void run(async () => {
+      await removeModel({ modelId: model._id });
+      selectModel(null);
+    }, "Sentiment model deleted");
+  };
+
+  if (!models) return null;
+
+  return (
+    <div className="lg:col-span-3 grid grid-cols-1 lg:grid-cols-3 gap-6 rounded-lg border border-white/10 bg-black/20 p-4">
+      <div className="flex flex-col gap-2 min-h-0">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="flex items-center gap-2 font-semibold"><Smile className="h-4 w-4" /> Sentiment models</h3>
+          <Button size="sm" variant="secondary" onClick={() => selectModel(null)}>
+            <Plus className="mr-1 h-4 w-4" /> New
+          </Button>
+        </div>
+        <div className="space-y-1">
+          {models.map(model => (
+            <button
+              key={model._id}
+              onClick={() => selectModel(model)}
+              className={`w-full text-left rounded-md px-3 py-2 text-sm hover:bg-white/10 ${model._id === selectedId ? "bg-white/10" : ""}`}
+            >
+              <div className="flex items-center justify-between">
+                <span>{model.name}</span>
+                <span className="text-xs text-muted-foreground">v{model.version}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {model.locale ?? "all locales"} · <span className={STATUS_STYLES[model.status]}>{model.status}</span> · {Object.keys(model.emotionKeywords).length} emotions
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 flex flex-col gap-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">{selected ? `Edit "${selected.name}"` : "New sentiment model"}</h3>
+          {selected && (
+            <div className="flex gap-2">
+              {selected.status !== "active" && (
+                <Button size="sm" variant="secondary" onClick={() => void run(
+                  () => setStatus({ modelId: selected._id, status: "active" }),
+                  "Model promoted",
+                )}>
+                  Promote
+                </Button>
+              )}
+              {selected.status === "draft" && (
+                <Button size="sm" variant="secondary" onClick={() => void run(
+                  () => setStatus({ modelId: selected._id, status: "candidate" }),
+                  "Model running in shadow",
+                )}>
+                  Try as candidate
+                </Button>
+              )}
+              {selected.status !== "draft" && (
+                <Button size="sm" variant="ghost" onClick={() => void run(
+                  () => setStatus({ modelId: selected._id, status: "draft" }),
+                  "Model moved to drafts",
+                )}>
+                  Move to drafts
+                </Button>
+              )}
+              {selected.status !== "active" && (
+                <Button size="sm" variant="destructive" onClick={() => remove(selected)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Name</span>
+            <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="bg-white/5 border-white/10" />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Locale (empty for all)</span>
+            <Input value={draft.locale} onChange={e => setDraft({ ...draft, locale: e.target.value })} placeholder="en-GB" className="bg-white/5 border-white/10" />
+          </label>
+        </div>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Emotions (one per line, "emotion: keyword, keyword")</span>
+          <textarea rows={6} value={draft.emotionKeywords} onChange={e => setDraft({ ...draft, emotionKeywords: e.target.value })} className={textareaClass} />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Intensity modifiers (one per line, "word: multiplier")</span>
+          <textarea rows={3} value={draft.intensityModifiers} onChange={e => setDraft({ ...draft, intensityModifiers: e.target.value })} className={textareaClass} />
+        </label>
+        <div>
+          <Button onClick={() => void save()}>
+            <Save className="mr-2 h-4 w-4" /> Save
+          </Button>
+        </div>
+
+        {selected?.status === "candidate" && <CandidateComparison modelId={selected._id} />}
+
+        {selected && versions && versions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground"><History className="h-4 w-4" /> History</h4>
+            {versions.map(version => (
+              <div key={version._id} className="flex items-center justify-between rounded-md bg-white/5 px-3 py-2 text-xs">
+                <span>
+                  v{version.version} · {new Date(version.createdAt).toLocaleString()} · {Object.keys(version.emotionKeywords).length} emotions{version.locale ? ` · ${version.locale}` : ""}
+                </span>
+                {version.version !== selected.version && (
+                  <Button size="sm" variant="ghost" onClick={() => void run(
+                    () => restoreVersion({ modelId: selected._id, version: version.version }),
+                    `Restored v${version.version}`,
+                  )}>
+                    <RotateCcw className="mr-1 h-3 w-3" /> Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
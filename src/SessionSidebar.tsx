@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Input } from "./components/ui/input";
+import { Check, History, Pencil, Pin, PinOff, Plus, Smile, Trash2, X } from "lucide-react";
+
+function formatLastMessage(timestamp: number) {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  }
+  return date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+// Past conversations of the signed-in user. Selecting one resumes it.
+export default function SessionSidebar({
+  currentSessionId,
+  disabled,
+  onSelect,
+  onNew,
+  getEmotionColor,
+}: {
+  currentSessionId: string;
+  // Switching is blocked while a reply is being generated.
+  disabled?: boolean;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+  getEmotionColor: (emotion: string) => string;
+}) {
+  const sessions = useQuery(api.sessions.list);
+  const renameSession = useMutation(api.sessions.rename);
+  const setPinned = useMutation(api.sessions.setPinned);
+  const removeSession = useMutation(api.sessions.remove);
+  const [editing, setEditing] = useState<{ sessionId: string; title: string } | null>(null);
+
+  const rename = async () => {
+    if (!editing) return;
+    try {
+      await renameSession(editing);
+      setEditing(null);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to rename conversation");
+    }
+  };
+
+  const remove = async (sessionId: string) => {
+    if (!window.confirm("Delete this conversation? This cannot be undone.")) return;
+    try {
+      await removeSession({ sessionId });
+      if (sessionId === currentSessionId) onNew();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete conversation");
+    }
+  };
+
+  const togglePinned = (sessionId: string, pinned: boolean) => {
+    setPinned({ sessionId, pinned }).catch(() => toast.error("Failed to update conversation"));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 h-full min-h-0">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="flex items-center gap-2 font-semibold text-muted-foreground"><History className="h-4 w-4" /> Conversations</h3>
+        <Button size="icon" variant="ghost" className="h-7 w-7" title="New conversation" disabled={disabled} onClick={onNew}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1 max-h-[30vh] lg:max-h-none">
+        {sessions?.length === 0 && (
+          <p className="px-2 text-sm text-muted-foreground">No conversations yet.</p>
+        )}
+        {sessions?.map(session => (
+          <div
+            key={session.sessionId}
+            className={`group rounded-lg border px-3 py-2 text-sm ${session.sessionId === currentSessionId ? "bg-white/10 border-brand-blue/50" : "bg-white/5 border-white/10 hover:bg-white/10"}`}
+          >
+            {editing?.sessionId === session.sessionId ? (
+              <div className="flex items-center gap-1">
+                <Input
+                  autoFocus
+                  value={editing.title}
+                  onChange={e => setEditing({ ...editing, title: e.target.value })}
+                  onKeyDown={e => {
+                    if (e.key === "Enter") void rename();
+                    if (e.key === "Escape") setEditing(null);
+                  }}
+                  className="h-7 bg-white/5 border-white/10"
+                />
+                <Button size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0" onClick={() => void rename()}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0" onClick={() => setEditing(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <button className="w-full text-left disabled:cursor-not-allowed" disabled={disabled} onClick={() => onSelect(session.sessionId)}>
+                  <div className="flex items-center gap-1">
+                    {session.pinned && <Pin className="h-3 w-3 flex-shrink-0 text-brand-blue" />}
+                    <span className="truncate">{session.title}</span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{formatLastMessage(session.lastMessageAt)}</span>
+                    {session.mood && (
+                      <span className="flex items-center gap-1">
+                        <Smile className={`h-3 w-3 ${getEmotionColor(session.mood)}`} /> {session.mood}
+                      </span>
+                    )}
+                  </div>
+                </button>
+                <div className="mt-1 flex justify-end gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                  <Button size="icon" variant="ghost" className="h-6 w-6" title="Rename" onClick={() => setEditing({ sessionId: session.sessionId, title: session.title })}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" title={session.pinned ? "Unpin" : "Pin"} onClick={() => togglePinned(session.sessionId, !session.pinned)}>
+                    {session.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" title="Delete" onClick={() => void remove(session.sessionId)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
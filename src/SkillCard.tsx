@@ -0,0 +1,107 @@
+import { BellRing, Cloud, CloudDrizzle, CloudFog, CloudLightning, CloudRain, CloudSnow, CloudSun, Droplets, LifeBuoy, Music, Sun, Wind } from "lucide-react";
+import { Forecast, SkillUI } from "../convex/validators";
+import MoodChart from "./MoodChart";
+
+// Renders the structured payload a skill attached to its reply. Unknown
+// kinds render nothing, so new skills can ship before their card does.
+export default function SkillCard({ ui }: { ui: SkillUI }) {
+  switch (ui.kind) {
+    case "reminders":
+      return <RemindersCard reminders={ui.data.reminders} />;
+    case "forecast":
+      return <ForecastCard forecast={ui.data} />;
+    case "safety":
+      return (
+        <div className="mt-3 flex items-start gap-2 rounded-lg bg-black/20 p-3 text-sm">
+          <LifeBuoy className="h-5 w-5 flex-shrink-0 text-red-300" />
+          <span>{ui.data.helpline}</span>
+        </div>
+      );
+    case "mood":
+      return (
+        <div className="mt-3 rounded-lg bg-black/20 p-3">
+          <MoodChart summary={ui.data} />
+        </div>
+      );
+    case "music":
+      return (
+        <a
+          href={ui.data.url}
+          target="_blank"
+          rel="noreferrer"
+          className="mt-3 flex items-center gap-2 rounded-lg bg-black/20 p-3 text-sm hover:bg-black/30"
+        >
+          <Music className="h-5 w-5 flex-shrink-0 opacity-70" />
+          <span className="flex-1 truncate capitalize">{ui.data.query}</span>
+          <span className="text-xs opacity-70">Listen</span>
+        </a>
+      );
+    default:
+      return null;
+  }
+}
+
+function RemindersCard({ reminders }: { reminders: Array<{ subject: string; dueAt: number }> }) {
+  return (
+    <div className="mt-3 space-y-1 rounded-lg bg-black/20 p-3 text-sm">
+      {reminders.map((reminder, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <BellRing className="h-4 w-4 flex-shrink-0 opacity-70" />
+          <span className="flex-1 truncate">{reminder.subject}</span>
+          <span className="text-xs opacity-70">
+            {new Date(reminder.dueAt).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const conditionIcons: Record<string, typeof Sun> = {
+  clear: Sun,
+  "partly cloudy": CloudSun,
+  cloudy: Cloud,
+  fog: CloudFog,
+  drizzle: CloudDrizzle,
+  rain: CloudRain,
+  snow: CloudSnow,
+  thunderstorm: CloudLightning,
+};
+
+function ConditionIcon({ condition, className }: { condition: string; className?: string }) {
+  const Icon = conditionIcons[condition] ?? Cloud;
+  return <Icon className={className} />;
+}
+
+function ForecastCard({ forecast }: { forecast: Forecast }) {
+  const { current } = forecast;
+  return (
+    <div className="mt-3 rounded-lg bg-black/20 p-3 text-sm">
+      <div className="flex items-center gap-3">
+        <ConditionIcon condition={current.condition} className="h-8 w-8 opacity-80" />
+        <div className="flex-1">
+          <div className="text-xs opacity-70">{forecast.location}</div>
+          <div className="text-2xl font-semibold">{current.temperature}°C</div>
+        </div>
+        <div className="space-y-1 text-xs opacity-70 text-right">
+          <div className="capitalize">{current.condition}</div>
+          <div className="flex items-center justify-end gap-1"><Wind className="h-3 w-3" /> {current.windSpeed} km/h</div>
+          {current.humidity !== undefined && (
+            <div className="flex items-center justify-end gap-1"><Droplets className="h-3 w-3" /> {current.humidity}%</div>
+          )}
+        </div>
+      </div>
+      <div className="mt-3 grid grid-cols-5 gap-1 border-t border-white/10 pt-2 text-center text-xs">
+        {forecast.daily.map(day => (
+          <div key={day.date} className="flex flex-col items-center gap-1">
+            <span className="opacity-70">
+              {new Date(`${day.date}T12:00:00Z`).toLocaleDateString([], { weekday: "short", timeZone: "UTC" })}
+            </span>
+            <ConditionIcon condition={day.condition} className="h-4 w-4" />
+            <span>{day.high}° <span className="opacity-60">{day.low}°</span></span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
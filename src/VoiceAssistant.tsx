@@ -1,15 +1,40 @@
 import React, { useState, useRef, useEffect } from "react";
-import { useAction, useMutation, useQuery } from "convex/react";
+import { useAction, useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { toast } from "sonner";
 import { Button } from "./components/ui/button";
 import { Avatar, AvatarFallback } from "./components/ui/avatar";
-import { Bot, BrainCircuit, CircleHelp, LoaderCircle, Lock, MessageCircle, Mic, MicOff, RefreshCw, Send, ShieldAlert, Smile, Timer, User, VolumeX } from "lucide-react";
-import { Doc } from "../convex/_generated/dataModel";
+import { BellRing, Bot, BrainCircuit, CircleHelp, LoaderCircle, Lock, MessageCircle, Mic, MicOff, RefreshCw, Send, Settings2, ShieldAlert, ShieldCheck, Smile, Timer, User, VolumeX, X } from "lucide-react";
+import { Doc, Id } from "../convex/_generated/dataModel";
 import { motion, AnimatePresence } from "framer-motion";
 import { Input } from "./components/ui/input";
+import { createUtterance, takeSpeakableSentences, VoiceSettings } from "./lib/speech";
+import SkillCard from "./SkillCard";
+import VoiceSettingsPanel from "./VoiceSettingsPanel";
+import ResponsePreferencesPanel from "./ResponsePreferencesPanel";
+import SessionSidebar from "./SessionSidebar";
+import MetricsPanel from "./MetricsPanel";
+import MoodPanel from "./MoodPanel";
+import MemoryPanel from "./MemoryPanel";
+import ConversationSummary from "./ConversationSummary";
+import MessageFeedback from "./MessageFeedback";
 
-type Message = Doc<"conversations">["messages"][number];
+type Message = Doc<"messages">;
+
+const HISTORY_PAGE_SIZE = 30;
+
+// Used until the saved settings have loaded.
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = { preferredVoice: "", speechRate: 0.9, pitch: 1.0, volume: 0.8 };
+
+// The session open when the page was last used, so a reload resumes it.
+const SESSION_STORAGE_KEY = "voiceAssistant.sessionId";
+
+// Language speech is recognized in; it also picks the sentiment model.
+const RECOGNITION_LANG = "en-US";
+
+function newSessionId() {
+  return `session_${Date.now()}`;
+}
 
 interface VoiceAssistantState {
   isListening: boolean;
@@ -25,7 +50,7 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
     isListening: false,
     isProcessing: false,
     isSpeaking: false,
-    sessionId: `session_${Date.now()}`,
+    sessionId: localStorage.getItem(SESSION_STORAGE_KEY) ?? newSessionId(),
     transcript: "",
     permissionStatus: 'loading',
   });
@@ -33,12 +58,44 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
   const recognitionRef = useRef<any | null>(null);
   const synthesisRef = useRef<SpeechSynthesis | null>(null);
   const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  // The reply currently streaming in: the timestamp of the newest message
+  // before it and how much of its text has already been queued for speech.
+  const streamingTurnRef = useRef<{ after: number; spokenIndex: number } | null>(null);
+  // The turn whose processVoiceInput call is still running, if any. Speech
+  // can start and be cut off before it returns.
+  const processingTurnRef = useRef<{ done: Promise<void> } | null>(null);
+  const pendingUtterancesRef = useRef(0);
+  // How far into which reply speech has got, reported if the user cuts it off.
+  const speechProgressRef = useRef<{ messageId: Id<"messages">; spokenChars: number } | null>(null);
+  // Bumped when speech is stopped so callbacks of cancelled utterances are ignored.
+  const speechGenerationRef = useRef(0);
+  // Read when speaking, which can start from the recognizer's stale closure.
+  const voiceSettingsRef = useRef<VoiceSettings | undefined>(undefined);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const latestMessageAtRef = useRef(0);
+  // Read by processTranscript and stopSpeaking, which can run from stale closures.
+  const sessionIdRef = useRef(state.sessionId);
+  sessionIdRef.current = state.sessionId;
+  const notifiedRemindersRef = useRef(new Set<string>());
   const conversationEndRef = useRef<HTMLDivElement>(null);
 
   const processVoiceInput = useAction(api.voiceAssistant.processVoiceInput);
+  const markInterrupted = useMutation(api.voiceAssistant.markInterrupted);
+  const voiceSettings = useQuery(api.voiceSettings.get);
+  voiceSettingsRef.current = voiceSettings;
   const initializeDefaults = useMutation(api.voiceAssistant.initializeDefaults);
-  const conversation = useQuery(api.voiceAssistant.getConversationHistory, { sessionId: state.sessionId });
-  const metrics = useQuery(api.voiceAssistant.getPerformanceMetrics);
+  const history = usePaginatedQuery(api.messages.list, { sessionId: state.sessionId }, { initialNumItems: HISTORY_PAGE_SIZE });
+  // Pages arrive newest first.
+  const messages = [...history.results].reverse();
+  const latestMessage = history.results[0];
+  const sessionFeedback = useQuery(api.feedback.listForSession, { sessionId: state.sessionId });
+  const feedbackByMessage = new Map(sessionFeedback?.map(feedback => [feedback.messageId, feedback]));
+  const labelOptions = useQuery(api.feedback.getLabelOptions);
+  const upcomingReminders = useQuery(api.reminders.listUpcoming);
+  const dueReminders = useQuery(api.reminders.listDue);
+  const acknowledgeReminder = useMutation(api.reminders.acknowledge);
+  const snoozeReminder = useMutation(api.reminders.snooze);
+  const cancelReminder = useMutation(api.reminders.cancel);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -66,7 +123,7 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
       const rec = new SpeechRecognitionAPI();
       rec.continuous = false;
       rec.interimResults = true;
-      rec.lang = "en-US";
+      rec.lang = RECOGNITION_LANG;
 
       rec.onstart = () => setState(prev => ({ ...prev, isListening: true, transcript: "" }));
       rec.onresult = (event: any) => {
@@ -109,7 +166,49 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
 
   useEffect(() => {
     conversationEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [conversation?.messages]);
+    // Read by processTranscript, which the recognizer calls from a stale closure.
+    latestMessageAtRef.current = latestMessage?.timestamp ?? 0;
+  }, [latestMessage?._id, latestMessage?.content]);
+
+  // Speak the streaming reply sentence by sentence as it arrives. The final
+  // text is spoken by processTranscript, since moderation may replace it.
+  useEffect(() => {
+    const turn = streamingTurnRef.current;
+    if (!turn) return;
+    const reply = messages.find(message => message.type === "assistant" && message.timestamp > turn.after);
+    if (reply?.streaming) {
+      speakNewSentences(reply.content, false, reply._id);
+    }
+  }, [latestMessage?._id, latestMessage?.content, latestMessage?.streaming]);
+
+  // Ask for notification permission once the user has something to be reminded about.
+  useEffect(() => {
+    if (upcomingReminders?.length && "Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission().catch(console.warn);
+    }
+  }, [upcomingReminders?.length]);
+
+  // Announce reminders as the scheduler fires them.
+  useEffect(() => {
+    for (const reminder of dueReminders ?? []) {
+      if (notifiedRemindersRef.current.has(reminder._id)) continue;
+      notifiedRemindersRef.current.add(reminder._id);
+
+      const text = `Reminder: ${reminder.subject}`;
+      toast(text, {
+        duration: 15000,
+        action: {
+          label: "Snooze 10 min",
+          onClick: () => void snoozeReminder({ reminderId: reminder._id }).catch(() => toast.error("Failed to snooze reminder")),
+        },
+      });
+      if ("Notification" in window && Notification.permission === "granted") {
+        new Notification(text);
+      }
+      speakSentence(text);
+      acknowledgeReminder({ reminderId: reminder._id }).catch(console.error);
+    }
+  }, [dueReminders]);
 
   const requestMicrophonePermission = async () => {
     try {
@@ -127,7 +226,11 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
   const startListening = () => {
     if (state.permissionStatus === 'prompt') {
       requestMicrophonePermission();
-    } else if (recognitionRef.current && !state.isListening && !state.isProcessing) {
+    } else if (recognitionRef.current && !state.isListening && (!state.isProcessing || state.isSpeaking)) {
+      // Barge-in: talking over the assistant cuts its reply off.
+      if (pendingUtterancesRef.current > 0) {
+        stopSpeaking();
+      }
       recognitionRef.current.start();
     }
   };
@@ -139,30 +242,129 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
     }
   };
 
+  // `source` ties the sentence to its place in an assistant message so an
+  // interruption can record how much of the message was heard.
+  const speakSentence = (sentence: string, source?: { messageId: Id<"messages">; start: number }) => {
+    if (!synthesisRef.current) return;
+
+    const generation = speechGenerationRef.current;
+    const isCurrent = () => generation === speechGenerationRef.current;
+    const trackProgress = (spokenChars: number) => {
+      if (source && isCurrent()) {
+        speechProgressRef.current = { messageId: source.messageId, spokenChars };
+      }
+    };
+
+    const utterance = createUtterance(sentence, voiceSettingsRef.current ?? DEFAULT_VOICE_SETTINGS);
+    utterance.onstart = () => {
+      if (!isCurrent()) return;
+      setState(prev => ({ ...prev, isSpeaking: true }));
+      trackProgress(source?.start ?? 0);
+    };
+    utterance.onboundary = (event) => trackProgress((source?.start ?? 0) + event.charIndex);
+    const onFinished = () => {
+      if (!isCurrent()) return;
+      trackProgress((source?.start ?? 0) + sentence.length);
+      pendingUtterancesRef.current -= 1;
+      if (pendingUtterancesRef.current === 0 && !streamingTurnRef.current) {
+        speechProgressRef.current = null;
+        setState(prev => ({ ...prev, isSpeaking: false }));
+      }
+    };
+    utterance.onend = onFinished;
+    utterance.onerror = onFinished;
+    pendingUtterancesRef.current += 1;
+    currentUtteranceRef.current = utterance;
+    synthesisRef.current.speak(utterance);
+  };
+
+  const speakNewSentences = (text: string, isFinal: boolean, messageId: Id<"messages">) => {
+    const turn = streamingTurnRef.current;
+    if (!turn) return;
+    const { sentences, endIndex } = takeSpeakableSentences(text, turn.spokenIndex, isFinal);
+    turn.spokenIndex = endIndex;
+    sentences.forEach(sentence => speakSentence(sentence.text, { messageId, start: sentence.start }));
+  };
+
+  // Drops the sentence being spoken and any still queued.
+  const cancelSpeech = () => {
+    speechGenerationRef.current += 1;
+    pendingUtterancesRef.current = 0;
+    speechProgressRef.current = null;
+    synthesisRef.current?.cancel();
+  };
+
+  // Stops speech immediately, including any sentences still queued from a
+  // streaming reply, and records how much of the reply was heard.
+  const stopSpeaking = () => {
+    const progress = speechProgressRef.current;
+    cancelSpeech();
+    streamingTurnRef.current = null;
+    setState(prev => ({ ...prev, isSpeaking: false }));
+
+    if (progress) {
+      markInterrupted(progress).catch(console.error);
+    }
+  };
+
+  const switchSession = (sessionId: string) => {
+    if (sessionId === state.sessionId || state.isProcessing) return;
+    if (pendingUtterancesRef.current > 0) {
+      stopSpeaking();
+    }
+    localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    setState(prev => ({ ...prev, sessionId, transcript: "" }));
+  };
+
   const processTranscript = async (transcript: string) => {
     if (!transcript.trim()) return;
-    setState(prev => ({ ...prev, isProcessing: true, transcript: "" }));
+    if (pendingUtterancesRef.current > 0) {
+      stopSpeaking();
+    }
+    setState(prev => ({ ...prev, transcript: "" }));
+    // A reply the user talked over may still be finishing; let it settle so
+    // turns don't overlap.
+    await processingTurnRef.current?.done;
+    setState(prev => ({ ...prev, isProcessing: true }));
+    const turn = { after: latestMessageAtRef.current, spokenIndex: 0 };
+    streamingTurnRef.current = turn;
+    const request = processVoiceInput({
+      text: transcript,
+      sessionId: sessionIdRef.current,
+      timezoneOffset: new Date().getTimezoneOffset(),
+      locale: RECOGNITION_LANG,
+    });
+    const processing = { done: request.then(() => undefined, () => undefined) };
+    processingTurnRef.current = processing;
 
     try {
-      const result = await processVoiceInput({ text: transcript, sessionId: state.sessionId });
-      
-      // We've received the response, so we're no longer "processing" the input.
-      setState(prev => ({ ...prev, isProcessing: false }));
-
-      if (synthesisRef.current && result.response) {
-        const utterance = new SpeechSynthesisUtterance(result.response);
-        utterance.rate = 0.9;
-        utterance.pitch = 1.0;
-        utterance.volume = 0.8;
-        utterance.onstart = () => setState(prev => ({ ...prev, isSpeaking: true }));
-        utterance.onend = () => setState(prev => ({ ...prev, isSpeaking: false }));
-        currentUtteranceRef.current = utterance;
-        synthesisRef.current.speak(utterance);
+      const result = await request;
+
+      // The user cut this reply off; whatever is current now is not ours.
+      if (streamingTurnRef.current !== turn) return;
+
+      // What was spoken so far was blocked or redacted; say the reply
+      // from the start instead.
+      if (result.replaced) {
+        cancelSpeech();
+        turn.spokenIndex = 0;
       }
+      // Speak whatever the live updates have not covered yet.
+      speakNewSentences(result.response, true, result.messageId);
+      streamingTurnRef.current = null;
+      setState(prev => ({ ...prev, isSpeaking: prev.isSpeaking && pendingUtterancesRef.current > 0 }));
     } catch (error) {
       console.error("Error processing voice input:", error);
       toast.error("Failed to process voice input");
-      setState(prev => ({ ...prev, isProcessing: false }));
+      if (streamingTurnRef.current === turn) {
+        streamingTurnRef.current = null;
+      }
+    } finally {
+      // A newer turn may have started after this one was cut off.
+      if (processingTurnRef.current === processing) {
+        processingTurnRef.current = null;
+        setState(prev => ({ ...prev, isProcessing: false }));
+      }
     }
   };
 
@@ -170,6 +372,8 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
     "What's the weather like in London?",
     "I'm feeling a bit down today",
     "Tell me a fun fact about space",
+    "Remind me to stretch in 20 minutes",
+    "How have I been feeling this week?",
   ];
 
   const getEmotionColor = (emotion: string) => ({
@@ -179,7 +383,8 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
 
   const renderPermissionUI = () => {
     const commonButtonClass = "w-28 h-28 rounded-full shadow-lg border-4 transition-all duration-300";
-    const disabled = state.isProcessing || state.isSpeaking;
+    // Speech can be talked over while the rest of the reply is on its way.
+    const disabled = state.isProcessing && !state.isSpeaking;
 
     switch (state.permissionStatus) {
       case 'loading':
@@ -215,23 +420,52 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
               <Mic size={48} />
             </Button>
             <p className="mt-4 h-5 text-muted-foreground italic">
-              {state.isListening ? `Listening...` : state.isProcessing ? "Thinking..." : state.isSpeaking ? "Speaking..." : "Tap to speak"}
+              {state.isListening ? `Listening...` : state.isSpeaking ? "Speaking... tap to interrupt" : state.isProcessing ? "Thinking..." : "Tap to speak"}
             </p>
+            {state.isSpeaking && (
+              <Button variant="secondary" size="sm" className="mt-3" onClick={stopSpeaking}>
+                <VolumeX className="mr-2 h-4 w-4" /> Stop speaking
+              </Button>
+            )}
           </motion.div>
         );
     }
   };
 
   return (
-    <div className="w-full h-full max-h-full lg:max-h-[85vh] grid grid-cols-1 lg:grid-cols-3 gap-6 p-2 sm:p-4 rounded-2xl border border-white/10 bg-black/20 backdrop-blur-xl shadow-2xl shadow-brand-blue/10">
+    <div className="w-full h-full max-h-full lg:max-h-[85vh] grid grid-cols-1 lg:grid-cols-4 gap-6 p-2 sm:p-4 rounded-2xl border border-white/10 bg-black/20 backdrop-blur-xl shadow-2xl shadow-brand-blue/10">
+      {/* Session List */}
+      <div className="lg:col-span-1 flex flex-col h-full min-h-0">
+        <SessionSidebar
+          currentSessionId={state.sessionId}
+          disabled={state.isProcessing}
+          onSelect={switchSession}
+          onNew={() => switchSession(newSessionId())}
+          getEmotionColor={getEmotionColor}
+        />
+      </div>
+
       {/* Main Conversation Panel */}
   <div className="lg:col-span-2 flex flex-col h-full min-h-0 overflow-hidden rounded-lg border border-white/10 bg-black/20 p-4">
+  <ConversationSummary sessionId={state.sessionId} />
   <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-6 max-h-[60vh] lg:max-h-[65vh]">
           <AnimatePresence>
-            {conversation && conversation.messages.length > 0 ? (
-              conversation.messages.map((message: Message) => (
+            {history.status === "CanLoadMore" && (
+              <div key="load-more" className="flex justify-center">
+                <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => history.loadMore(HISTORY_PAGE_SIZE)}>
+                  Load earlier messages
+                </Button>
+              </div>
+            )}
+            {history.status === "LoadingMore" && (
+              <div key="loading-more" className="flex justify-center">
+                <LoaderCircle className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {messages.length > 0 ? (
+              messages.map((message: Message) => (
                 <motion.div
-                  key={message.id}
+                  key={message._id}
                   layout
                   initial={{ opacity: 0, y: 20, scale: 0.9 }}
                   animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -240,14 +474,48 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
                   className={`flex items-start gap-3 ${message.type === "user" ? "justify-end" : "justify-start"}`}
                 >
                   {message.type === "assistant" && <Avatar><AvatarFallback className="bg-brand-blue text-white"><Bot size={20} /></AvatarFallback></Avatar>}
-                  <div className={`max-w-lg rounded-xl px-4 py-3 ${message.type === "user" ? "bg-brand-blue text-white" : "bg-white/10"}`}>
-                    <p>{message.content}</p>
+                  <div
+                    className={`max-w-lg rounded-xl px-4 py-3 ${message.type === "user" ? "bg-brand-blue text-white" : "bg-white/10"}`}
+                    title={message.routing && `Routed to ${message.routing.route}: ${message.routing.reason}`}
+                  >
+                    {message.streaming && !message.content ? (
+                      <LoaderCircle className="w-4 h-4 animate-spin opacity-70" />
+                    ) : (
+                      <p>
+                        {message.interrupted && message.spokenChars !== undefined ? (
+                          <>
+                            {message.content.slice(0, message.spokenChars)}
+                            <span className="opacity-40">{message.content.slice(message.spokenChars)}</span>
+                          </>
+                        ) : message.content}
+                        {message.streaming && <span className="ml-0.5 inline-block w-1.5 h-4 align-middle bg-current animate-pulse" />}
+                      </p>
+                    )}
+                    {message.ui && <SkillCard ui={message.ui} />}
+                    {message.interrupted && (
+                      <div className="mt-2 flex items-center gap-1 text-xs opacity-60">
+                        <VolumeX className="w-3 h-3" /> Interrupted
+                      </div>
+                    )}
+                    {message.moderation && (
+                      <div
+                        className="mt-2 flex items-center gap-1 text-xs opacity-60"
+                        title={[...message.moderation.flagged, ...message.moderation.redactions.map(r => `${r.rule} ×${r.count}`)].join(", ")}
+                      >
+                        <ShieldCheck className="w-3 h-3" />
+                        {message.moderation.blocked ? "Blocked by moderation" : message.type === "user" ? "Filtered before sending" : "Filtered"}
+                      </div>
+                    )}
                     {message.type === "user" && message.sentiment && (
                       <div className="mt-2 flex items-center gap-2 text-xs opacity-70">
                         <Smile className={`w-4 h-4 ${getEmotionColor(message.sentiment.emotion)}`} />
                         <span>{message.sentiment.emotion}</span>
+                        {message.intent && <span>· {message.intent.category}</span>}
                       </div>
                     )}
+                    {!message.streaming && (
+                      <MessageFeedback message={message} feedback={feedbackByMessage.get(message._id)} options={labelOptions} />
+                    )}
                   </div>
                   {message.type === "user" && <Avatar><AvatarFallback className="bg-muted"><User size={20} /></AvatarFallback></Avatar>}
                 </motion.div>
@@ -269,9 +537,9 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
             onKeyDown={(e) => e.key === 'Enter' && processTranscript(state.transcript)}
             placeholder="Or type your message..."
             className="bg-white/5 border-white/10 flex-1"
-            disabled={state.isProcessing || state.isSpeaking}
+            disabled={state.isProcessing}
           />
-          <Button size="icon" onClick={() => processTranscript(state.transcript)} disabled={!state.transcript || state.isProcessing || state.isSpeaking}>
+          <Button size="icon" onClick={() => processTranscript(state.transcript)} disabled={!state.transcript || state.isProcessing}>
             {state.isProcessing ? <LoaderCircle className="animate-spin" /> : <Send />}
           </Button>
         </div>
@@ -282,26 +550,43 @@ export default function VoiceAssistant({ userEmail }: { userEmail?: string | nul
         <div className="flex-1 flex flex-col items-center justify-center p-6 rounded-lg bg-white/5 border border-white/10">
           {renderPermissionUI()}
         </div>
+        {showVoiceSettings && voiceSettings ? (
+          <>
+            <VoiceSettingsPanel settings={voiceSettings} onClose={() => setShowVoiceSettings(false)} />
+            <ResponsePreferencesPanel sessionId={state.sessionId} />
+          </>
+        ) : (
+          <Button variant="ghost" className="justify-start text-muted-foreground hover:bg-white/10 hover:text-foreground" onClick={() => setShowVoiceSettings(true)}>
+            <Settings2 className="mr-2 h-4 w-4" /> Voice & response settings
+          </Button>
+        )}
         <div className="space-y-2">
           <h3 className="font-semibold text-muted-foreground px-2">Try asking...</h3>
           {examplePrompts.map((prompt, i) => (
-            <Button key={i} variant="ghost" className="w-full justify-start text-muted-foreground hover:bg-white/10 hover:text-foreground" onClick={() => processTranscript(prompt)} disabled={state.isProcessing || state.isSpeaking || state.permissionStatus !== 'granted'}>
+            <Button key={i} variant="ghost" className="w-full justify-start text-muted-foreground hover:bg-white/10 hover:text-foreground" onClick={() => processTranscript(prompt)} disabled={state.isProcessing || state.permissionStatus !== 'granted'}>
               {prompt}
             </Button>
           ))}
         </div>
-        {metrics && (
-          <div className="grid grid-cols-2 gap-4 text-center">
-            <div className="p-3 rounded-lg bg-white/5 border border-white/10">
-              <div className="font-bold text-lg">{metrics.avgSentimentAccuracy.toFixed(0)}%</div>
-              <div className="text-xs text-muted-foreground">Sentiment</div>
-            </div>
-            <div className="p-3 rounded-lg bg-white/5 border border-white/10">
-              <div className="font-bold text-lg">{metrics.avgIntentAccuracy.toFixed(0)}%</div>
-              <div className="text-xs text-muted-foreground">Intent</div>
-            </div>
+        {upcomingReminders && upcomingReminders.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="flex items-center gap-2 font-semibold text-muted-foreground px-2"><BellRing className="h-4 w-4" /> Reminders</h3>
+            {upcomingReminders.map(reminder => (
+              <div key={reminder._id} className="flex items-center justify-between gap-2 rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <div className="truncate">{reminder.subject}</div>
+                  <div className="text-xs text-muted-foreground">{new Date(reminder.dueAt).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })}</div>
+                </div>
+                <Button size="icon" variant="ghost" className="h-7 w-7 flex-shrink-0" onClick={() => void cancelReminder({ reminderId: reminder._id }).catch(() => toast.error("Failed to cancel reminder"))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
           </div>
         )}
+        <MoodPanel />
+        <MemoryPanel />
+        <MetricsPanel />
         <div className="p-3 bg-yellow-900/20 border border-yellow-700/30 rounded-lg text-xs text-yellow-300 flex items-start gap-2">
           <CircleHelp size={28} className="flex-shrink-0" />
           <span><strong>Creators</strong> The Mind Behind the Tech <code className="bg-yellow-400/20 px-1 rounded">Created By</code> Aditya Singh and Abhishek Mewada</span>
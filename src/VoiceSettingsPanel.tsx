@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { toast } from "sonner";
+import { Button } from "./components/ui/button";
+import { Play, RotateCcw, Save, X } from "lucide-react";
+import { createUtterance, VoiceSettings } from "./lib/speech";
+
+const PREVIEW_TEXT = "Hi, this is how I'll sound when I answer you.";
+
+const selectClass = "flex w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+// Browsers load voices asynchronously and announce them with voiceschanged.
+function useVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  useEffect(() => {
+    if (typeof window === "undefined" || !window.speechSynthesis) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener("voiceschanged", load);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", load);
+  }, []);
+  return voices;
+}
+
+export default function VoiceSettingsPanel({ settings, onClose }: { settings: VoiceSettings; onClose: () => void }) {
+  const saveSettings = useMutation(api.voiceSettings.save);
+  const resetSettings = useMutation(api.voiceSettings.reset);
+  const voices = useVoices();
+  const [draft, setDraft] = useState<VoiceSettings>(settings);
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  const preview = () => {
+    if (!window.speechSynthesis) return;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(createUtterance(PREVIEW_TEXT, draft));
+  };
+
+  const save = async () => {
+    try {
+      await saveSettings(draft);
+      toast.success("Voice settings saved");
+      onClose();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to save voice settings");
+    }
+  };
+
+  const reset = async () => {
+    try {
+      await resetSettings();
+      toast.success("Voice settings reset");
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to reset voice settings");
+    }
+  };
+
+  const slider = (label: string, field: "speechRate" | "pitch" | "volume", min: number, max: number, step: number) => (
+    <label className="block space-y-1 text-sm">
+      <span className="flex justify-between text-muted-foreground">
+        {label} <span>{draft[field].toFixed(2)}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={draft[field]}
+        onChange={e => setDraft({ ...draft, [field]: Number(e.target.value) })}
+        className="w-full accent-brand-blue"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 border border-white/10 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-muted-foreground">Voice settings</h3>
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <label className="block space-y-1 text-sm">
+        <span className="text-muted-foreground">Voice</span>
+        <select value={draft.preferredVoice} onChange={e => setDraft({ ...draft, preferredVoice: e.target.value })} className={selectClass}>
+          <option value="">Browser default</option>
+          {voices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI}>
+              {voice.name} ({voice.lang})
+            </option>
+          ))}
+        </select>
+      </label>
+      {slider("Speed", "speechRate", 0.5, 2, 0.05)}
+      {slider("Pitch", "pitch", 0, 2, 0.05)}
+      {slider("Volume", "volume", 0, 1, 0.05)}
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="secondary" onClick={preview}>
+          <Play className="mr-1 h-4 w-4" /> Preview
+        </Button>
+        <Button size="sm" onClick={() => void save()}>
+          <Save className="mr-1 h-4 w-4" /> Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => void reset()}>
+          <RotateCcw className="mr-1 h-4 w-4" /> Defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// Sentence ends followed by whitespace. Mirrors the boundary the backend uses
+// to decide when a streamed response is worth flushing.
+const SENTENCE_END = /[.!?]+["')\]]*\s+/g;
+
+export type SpeakableSentence = {
+  text: string;
+  // Offset of the sentence in the full response text.
+  start: number;
+};
+
+// Returns the complete sentences in `text` after `fromIndex`, and the index
+// up to which they reach. Once the response is final the trailing fragment
+// is included as well.
+export function takeSpeakableSentences(text: string, fromIndex: number, isFinal: boolean) {
+  const rest = text.slice(fromIndex);
+  const sentences: SpeakableSentence[] = [];
+  let consumed = 0;
+
+  const take = (end: number) => {
+    const raw = rest.slice(consumed, end);
+    const sentence = raw.trim();
+    if (sentence.length > 0) {
+      sentences.push({ text: sentence, start: fromIndex + consumed + raw.indexOf(sentence) });
+    }
+    consumed = end;
+  };
+
+  SENTENCE_END.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(rest)) !== null) {
+    take(match.index + match[0].length);
+  }
+
+  if (isFinal && consumed < rest.length) {
+    take(rest.length);
+  }
+
+  return {
+    sentences,
+    endIndex: fromIndex + consumed,
+  };
+}
+
+export type VoiceSettings = {
+  preferredVoice: string;
+  speechRate: number;
+  pitch: number;
+  volume: number;
+};
+
+// Builds an utterance that speaks with the user's saved settings. An unknown
+// or empty preferredVoice leaves the browser's default voice in place.
+export function createUtterance(text: string, settings: VoiceSettings) {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = settings.speechRate;
+  utterance.pitch = settings.pitch;
+  utterance.volume = settings.volume;
+  if (settings.preferredVoice && typeof window !== "undefined" && window.speechSynthesis) {
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === settings.preferredVoice);
+    if (voice) utterance.voice = voice;
+  }
+  return utterance;
+}